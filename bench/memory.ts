@@ -0,0 +1,36 @@
+/**
+ * Measures the heap used by maps of each storage engine (beyond their keys and values).
+ * Run with `yarn bench:memory`.
+ */
+import { setFlagsFromString } from 'v8';
+import { runInNewContext } from 'vm';
+import { ObjectMap, StorageType } from '../src';
+
+setFlagsFromString('--expose-gc');
+const gc: () => void = runInNewContext('gc');
+
+const SIZES = [1_000, 100_000];
+const storages: StorageType[] = ['chained', 'open-addressing'];
+
+function heapUsed(): number {
+  gc();
+  gc();
+  // Typed arrays are allocated outside of the heap
+  const { heapUsed, arrayBuffers } = process.memoryUsage();
+  return heapUsed + arrayBuffers;
+}
+
+for (const size of SIZES) {
+  const keys = Array.from({ length: size }, (_, i) => ({ id: i }));
+
+  for (const storage of storages) {
+    const before = heapUsed();
+    const map = new ObjectMap<{ id: number }, number>(undefined, { storage });
+    keys.forEach((key, i) => map.set(key, i));
+    const bytes = heapUsed() - before;
+
+    console.log(`${storage.padEnd(16)} ${String(size).padStart(7)} entries: ${(bytes / size).toFixed(1).padStart(6)} bytes/entry`);
+    // Keep the map alive until measured
+    map.clear();
+  }
+}
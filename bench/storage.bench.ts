@@ -0,0 +1,74 @@
+import { bench, describe } from 'vitest';
+import { ObjectMap, StorageType } from '../src';
+
+const SIZE = 10_000;
+const storages: StorageType[] = ['chained', 'open-addressing'];
+
+const keys = Array.from({ length: SIZE }, (_, i) => ({ id: i, name: `user-${i}` }));
+// Equal to the stored keys, but not the same objects
+const lookups = keys.map(({ id, name }) => ({ id, name }));
+const misses = keys.map(({ id, name }) => ({ id: id + SIZE, name }));
+
+function build(storage: StorageType): ObjectMap<{ id: number, name: string }, number> {
+  const map = new ObjectMap<{ id: number, name: string }, number>(undefined, { storage });
+  keys.forEach((key, i) => map.set(key, i));
+  return map;
+}
+
+const maps = Object.fromEntries(storages.map(storage => [storage, build(storage)]));
+
+describe(`insert ${SIZE} keys`, () => {
+  for (const storage of storages) {
+    bench(storage, () => {
+      build(storage);
+    });
+  }
+});
+
+describe(`look up ${SIZE} present keys`, () => {
+  for (const storage of storages) {
+    bench(storage, () => {
+      const map = maps[storage];
+      for (const key of lookups) {
+        map.get(key);
+      }
+    });
+  }
+});
+
+describe(`look up ${SIZE} missing keys`, () => {
+  for (const storage of storages) {
+    bench(storage, () => {
+      const map = maps[storage];
+      for (const key of misses) {
+        map.has(key);
+      }
+    });
+  }
+});
+
+describe(`delete & re-insert ${SIZE / 10} keys`, () => {
+  for (const storage of storages) {
+    bench(storage, () => {
+      const map = maps[storage];
+      for (let i = 0; i < SIZE; i += 10) {
+        map.delete(lookups[i]);
+      }
+      for (let i = 0; i < SIZE; i += 10) {
+        map.set(keys[i], i);
+      }
+    });
+  }
+});
+
+describe(`iterate ${SIZE} entries`, () => {
+  for (const storage of storages) {
+    bench(storage, () => {
+      let sum = 0;
+      for (const [, value] of maps[storage]) {
+        sum += value;
+      }
+      return void sum;
+    });
+  }
+});
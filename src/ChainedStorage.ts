@@ -0,0 +1,368 @@
+import { bucketIndex, KeyFunctions, MapStorage, normalizeHash } from './storage';
+
+/**
+ * @internal - wraps stored values to keep track of order.
+ * The nodes form a doubly-linked list in insertion order, so that the map can be traversed without hashing its keys.
+ */
+interface ChainedNode<K, V> {
+  key: K;
+  value: V;
+  /** The full hash of the key, compared before the (possibly expensive) keys themselves, and reused when resizing */
+  hash: number;
+  /** The key's secondary hash, computed once its bucket is treeified */
+  tiebreak?: number;
+  prev: ChainedNode<K, V> | null;
+  next: ChainedNode<K, V> | null;
+  /** Set once the node is deleted; its links are kept as they were, so that iterators positioned on it can go on */
+  deleted?: true;
+}
+
+/**
+ * @internal - the nodes whose hashes map to the same bucket. A treeified bucket is sorted by hash and tiebreak,
+ * so that it can be binary-searched.
+ */
+type Bucket<K, V> = ChainedNode<K, V>[] & { treeified?: boolean };
+
+/** @internal - the size above which buckets are treeified */
+const TREEIFY_THRESHOLD = 8;
+/** @internal - the size at or below which treeified buckets are reverted to plain arrays */
+const UNTREEIFY_THRESHOLD = 6;
+
+/**
+ * @internal - the default storage: an array of buckets, each an array of the nodes whose hashes map to it (separate chaining).
+ * Like Java's `HashMap`, buckets that grow past a threshold (e.g. with a weak hash function) are treeified -
+ * sorted by the full hash and the keys' tiebreaks, which keeps the worst-case lookup logarithmic.
+ */
+export class ChainedStorage<K, V> implements MapStorage<K, V> {
+  protected buckets: Array<Bucket<K, V> | undefined>;
+  protected first: ChainedNode<K, V> | null;
+  protected last: ChainedNode<K, V> | null;
+  protected _size: number;
+
+  constructor(capacity: number, protected fns: KeyFunctions<K>) {
+    this.buckets = new Array(capacity);
+    this.first = null;
+    this.last = null;
+    this._size = 0;
+  }
+
+  get size(): number {
+    return this._size;
+  }
+
+  get capacity(): number {
+    return this.buckets.length;
+  }
+
+  /**
+   * Finds the node of the given key - in the bucket of its hash, or otherwise in the buckets of its probed hashes.
+   * @returns the bucket containing the node, and the node's index in it; or `undefined` if the key is not stored.
+   */
+  protected locate(key: K, h: number): [bucket: Bucket<K, V>, index: number] | undefined {
+    // The key's tiebreak, computed only if needed (at most once)
+    let tiebreak: number | undefined;
+    const getTiebreak = () => tiebreak ??= this.tiebreakOf(key);
+
+    const found = this.locateIn(h, key, getTiebreak);
+    if (found || !this.fns.probe) {
+      return found;
+    }
+
+    for (const probed of this.fns.probe(key)) {
+      const found = this.locateIn(normalizeHash(probed), key, getTiebreak);
+      if (found) {
+        return found;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Finds the node of the given key among the nodes with the given hash.
+   */
+  private locateIn(h: number, key: K, getTiebreak: () => number): [bucket: Bucket<K, V>, index: number] | undefined {
+    const bucket = this.buckets[bucketIndex(h, this.capacity)];
+    if (!bucket) {
+      return undefined;
+    }
+
+    if (!bucket.treeified) {
+      const index = bucket.findIndex(node => node.hash === h && this.fns.equals(key, node.key));
+      return index === -1 ? undefined : [bucket, index];
+    }
+
+    // Scan only the nodes with the same hash and tiebreak
+    const tiebreak = getTiebreak();
+    for (let i = lowerBound(bucket, h, tiebreak); i < bucket.length; i++) {
+      const node = bucket[i];
+      if (node.hash !== h || node.tiebreak !== tiebreak) {
+        break;
+      }
+      if (this.fns.equals(key, node.key)) {
+        return [bucket, i];
+      }
+    }
+
+    return undefined;
+  }
+
+  private tiebreakOf(key: K): number {
+    return this.fns.tiebreak ? normalizeHash(this.fns.tiebreak(key)) : 0;
+  }
+
+  /**
+   * Adds the node to the given bucket (at its place, if the bucket is treeified), treeifying the bucket if it's too large.
+   */
+  private addToBucket(buckets: Array<Bucket<K, V> | undefined>, index: number, node: ChainedNode<K, V>): void {
+    const bucket = buckets[index] ??= [];
+    if (bucket.treeified) {
+      node.tiebreak ??= this.tiebreakOf(node.key);
+      bucket.splice(upperBound(bucket, node.hash, node.tiebreak), 0, node);
+    }
+    else {
+      bucket.push(node);
+      if (bucket.length > TREEIFY_THRESHOLD) {
+        this.treeify(bucket);
+      }
+    }
+  }
+
+  private treeify(bucket: Bucket<K, V>): void {
+    for (const node of bucket) {
+      node.tiebreak ??= this.tiebreakOf(node.key);
+    }
+    bucket.sort(compareNodes);
+    bucket.treeified = true;
+  }
+
+  has(key: K, hash: number): boolean {
+    return this.locate(key, hash) !== undefined;
+  }
+
+  get(key: K, hash: number): V | undefined {
+    const found = this.locate(key, hash);
+    return found && found[0][found[1]].value;
+  }
+
+  set(key: K, value: V, hash: number, adopt?: (key: K) => K): void {
+    const found = this.locate(key, hash);
+    if (found) {
+      // The key exists in the map. Replace & return
+      const [bucket, i] = found;
+      bucket[i].value = value;
+      return;
+    }
+
+    // The key is not in the map; insert it
+    this.append(key, value, hash, adopt);
+  }
+
+  add(key: K, value: V, hash: number, adopt?: (key: K) => K): boolean {
+    if (this.locate(key, hash)) {
+      return false;
+    }
+
+    this.append(key, value, hash, adopt);
+    return true;
+  }
+
+  /**
+   * Inserts a node for a key that is not in the map, at the end of the list.
+   */
+  private append(key: K, value: V, hash: number, adopt: ((key: K) => K) | undefined): void {
+    const node: ChainedNode<K, V> = {
+      key: adopt ? adopt(key) : key,
+      value,
+      hash,
+      prev: this.last,
+      next: null
+    };
+    this.addToBucket(this.buckets, bucketIndex(hash, this.capacity), node);
+    this._size++;
+
+    // Append to the end of the list
+    if (this.last !== null) {
+      this.last.next = node;
+    }
+    this.last = node;
+
+    // And if this is the first element, update `this.first`
+    if (this.first === null) {
+      this.first = node;
+    }
+  }
+
+  delete(key: K, hash: number): boolean {
+    const found = this.locate(key, hash);
+    if (!found) {
+      // Key is not in the map
+      return false;
+    }
+
+    const [bucket, i] = found;
+    const node = bucket[i];
+    node.deleted = true;
+    bucket.splice(i, 1);
+    if (bucket.treeified && bucket.length <= UNTREEIFY_THRESHOLD) {
+      // Small enough to scan; a plain bucket's order doesn't matter, so it stays as is
+      bucket.treeified = false;
+    }
+    this._size--;
+
+    // Unlink the node from the list
+    const { prev, next } = node;
+    if (prev !== null) {
+      prev.next = next;
+    }
+    else {
+      this.first = next;
+    }
+    if (next !== null) {
+      next.prev = prev;
+    }
+    else {
+      this.last = prev;
+    }
+
+    return true;
+  }
+
+  clear(): void {
+    // Iterators positioned on the nodes should go on to nodes added later
+    for (let node = this.first; node !== null; node = node.next) {
+      node.deleted = true;
+    }
+    this.buckets = new Array(this.buckets.length);
+    this._size = 0;
+    this.first = null;
+    this.last = null;
+  }
+
+  /**
+   * Moves the nodes into a new array of buckets of the given capacity; the order is kept, as it's maintained by the nodes.
+   */
+  resize(capacity: number): void {
+    const buckets: Array<Bucket<K, V> | undefined> = new Array(capacity);
+    for (const bucket of this.buckets) {
+      for (const node of bucket ?? []) {
+        this.addToBucket(buckets, bucketIndex(node.hash, capacity), node);
+      }
+    }
+
+    this.buckets = buckets;
+  }
+
+  sort(compareFn: (a: [K, V], b: [K, V]) => number): void {
+    const nodes = [...this.nodes()];
+    nodes.sort((a, b) => compareFn([a.key, a.value], [b.key, b.value]));
+
+    // After sort, rewrite the order
+    this.first = nodes[0] ?? null;
+    this.last = nodes[nodes.length - 1] ?? null;
+
+    for (let i = 0; i < nodes.length; i++) {
+      const node = nodes[i];
+      node.prev = nodes[i - 1] ?? null;
+      node.next = nodes[i + 1] ?? null;
+    }
+  }
+
+  /**
+   * Iterates the nodes in order, with the semantics of native `Map` iterators under mutation:
+   * deleted nodes that weren't visited yet are skipped, and nodes added during iteration are visited.
+   */
+  protected * nodes(): Generator<ChainedNode<K, V>> {
+    let node = this.first;
+    while (node !== null) {
+      yield node;
+      node = this.successor(node);
+    }
+  }
+
+  /**
+   * The node that follows the given node in order - which may have been deleted (e.g. by the consumer of an iterator) -
+   * or `null` if there is none.
+   */
+  private successor(node: ChainedNode<K, V>): ChainedNode<K, V> | null {
+    // A deleted node's `prev` was its closest preceding node that was not deleted at the time; nodes are only ever
+    // appended, so the closest preceding node that is still not deleted is followed by the node we're looking for.
+    let live: ChainedNode<K, V> | null = node;
+    while (live !== null && live.deleted) {
+      live = live.prev;
+    }
+    return live === null ? this.first : live.next;
+  }
+
+  * keys(): Generator<K> {
+    for (const { key } of this.nodes()) {
+      yield key;
+    }
+  }
+
+  * values(): Generator<V> {
+    for (const { value } of this.nodes()) {
+      yield value;
+    }
+  }
+
+  * entries(): Generator<[K, V]> {
+    for (const { key, value } of this.nodes()) {
+      yield [key, value];
+    }
+  }
+
+  forEachEntry(callback: (key: K, value: V, hash: number) => void): void {
+    for (let node = this.first; node !== null; node = node.next) {
+      callback(node.key, node.value, node.hash);
+    }
+  }
+}
+
+/**
+ * @internal - orders the nodes of treeified buckets, by hash and then by tiebreak.
+ */
+function compareNodes(a: ChainedNode<unknown, unknown>, b: ChainedNode<unknown, unknown>): number {
+  if (a.hash !== b.hash) {
+    return a.hash < b.hash ? -1 : 1;
+  }
+  return a.tiebreak! < b.tiebreak! ? -1 : a.tiebreak! > b.tiebreak! ? 1 : 0;
+}
+
+/**
+ * @internal - the index of the first node in the (treeified) bucket that's not ordered before the given hash & tiebreak.
+ */
+function lowerBound(bucket: Bucket<unknown, unknown>, hash: number, tiebreak: number): number {
+  let low = 0;
+  let high = bucket.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    const node = bucket[mid];
+    if (node.hash < hash || (node.hash === hash && node.tiebreak! < tiebreak)) {
+      low = mid + 1;
+    }
+    else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * @internal - the index of the first node in the (treeified) bucket that's ordered after the given hash & tiebreak.
+ */
+function upperBound(bucket: Bucket<unknown, unknown>, hash: number, tiebreak: number): number {
+  let low = 0;
+  let high = bucket.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    const node = bucket[mid];
+    if (node.hash < hash || (node.hash === hash && node.tiebreak! <= tiebreak)) {
+      low = mid + 1;
+    }
+    else {
+      high = mid;
+    }
+  }
+  return low;
+}
@@ -1,21 +1,36 @@
+import { createComparator } from './comparator';
 import { equals as defaultEquals } from './equals';
-import { hash as defaultHash } from './hash';
+import { hash as defaultHash, createSeededHash, randomSeed } from './hash';
+import { KeyCachePolicy, memoizeEquals, memoizeHash } from './memoize';
+import { equalsSymbol, hashSymbol } from './protocol';
 import type { SetLike } from './ObjectSet';
+import { ChainedStorage } from './ChainedStorage';
+import { OpenAddressingStorage } from './OpenAddressingStorage';
+import { KeyFunctions, MapStorage, normalizeHash, StorageType } from './storage';
+import { deepClone, deepFreeze, KeyPolicy } from './ownership';
+import { formatValue } from './diff';
+
+export type { StorageType };
 
 /**
  * Constructor options for the `ObjectMap`, `ObjectSet`, `ImmutableMap` and `ImmutableSet` classes.
  */
 export interface ObjectMapOptions {
   /**
-   * The initial capacity of the map; defaults to `32`.
-   * For a map with constant capacity, set this together with `loadFactor=1`
+   * The initial capacity of the map; defaults to `16`.
+   * For a map with constant capacity, set this together with `loadFactor=Infinity`
    */
   initialCapacity: number;
   /** 
-   * The threshold above which the map will resize; defaults to `0.75`.
-   * For a map that never resizes, set this to `1`.
+   * The threshold above which the map grows (doubling its capacity), i.e. the maximal ratio of size to capacity;
+   * defaults to `0.75`. For a map that never grows, set this to `Infinity`.
    */
   loadFactor: number;
+  /**
+   * The threshold below which the map shrinks after deletes (halving its capacity, but never below its initial capacity),
+   * i.e. the minimal ratio of size to capacity; should be less than half of `loadFactor`. Defaults to no shrinking.
+   */
+  shrinkFactor?: number;
   /**
    * The function used to compare keys for equality; defaults to a deep equality function (exported as `equals`).
    */
@@ -24,17 +39,71 @@ export interface ObjectMapOptions {
    * The function used to hash keys; defaults to a deep hash function (exported as `hash`).
    */
   hash: (value: unknown) => number;
+  /**
+   * Memoizes the hashes of keys, and the results of comparing them, by object identity (in `WeakMap`s);
+   * this makes repeated lookups of the same large keys fast. Defaults to `'none'`.
+   * - `'frozen'` - memoize only deeply frozen keys (e.g. with `keyPolicy: 'freeze'`); checked once per key.
+   * - `'all'` - memoize all keys; only safe if keys are never mutated.
+   */
+  keyCache?: KeyCachePolicy;
+  /**
+   * Seeds the default hash function (see `createSeededHash`), which protects maps whose keys are user input
+   * against hash-flooding; ignored if `hash` is passed. `'random'` generates a random seed for the map.
+   * Defaults to no seed.
+   */
+  seed?: number | 'random';
+  /**
+   * Alternative hashes under which keys equal to the given key may be stored, for hash functions that may give equal keys
+   * different hashes (e.g. `createApproximateComparator`, at cell boundaries).
+   * These are checked, in order, only if the key is not found under its own hash; ignored if `hash` is passed without it.
+   */
+  probe?: (key: unknown) => Iterable<number>;
+  /**
+   * A secondary hash of keys, independent of `hash` but consistent with `equals` (e.g. a differently-seeded hash);
+   * orders keys with colliding hashes in treeified buckets, so that they can be binary-searched.
+   * Defaults to a seeded deep hash with the default `equals`, and to none otherwise - in which case keys with equal hashes
+   * are compared one by one. `createComparator` supplies one.
+   */
+  tiebreak?: (key: unknown) => number;
+  /**
+   * Projects keys before they're hashed and compared, e.g. `(s: string) => s.toLowerCase()` for case-insensitive keys,
+   * or `(user: User) => user.id` to key users by their id. The original keys are stored and returned
+   * (the key of the first insertion, for equal projected keys).
+   * The `hash`, `equals` and `probe` functions receive the projected keys.
+   */
+  keyTransform?: (key: any) => unknown;
+  /**
+   * How entries are stored; defaults to `'chained'`.
+   * - `'chained'` - an array of buckets, each holding the entries whose hashes map to it, linked in insertion order.
+   * - `'open-addressing'` - flat arrays of hashes, keys and values, in insertion order, indexed by a typed array
+   *   that's searched by linear probing; uses less memory, and is usually faster for lookups (see the benchmarks).
+   *   Its capacity may exceed the requested one, as it always keeps free slots.
+   */
+  storage?: StorageType;
+  /**
+   * How the map takes ownership of inserted keys, so that callers mutating them can't make entries unreachable;
+   * defaults to `'reference'`.
+   * - `'reference'` - store keys as they are.
+   * - `'freeze'` - deep-freeze keys on insert (see `deepFreeze`); combines well with `keyCache: 'frozen'`.
+   * - `'clone'` - store structural copies of keys (see `deepClone`); the copies are what the map's iterators return.
+   *   Keys whose copies are not equal to them by `equals` (e.g. with `maxDepth`, beyond which objects are compared
+   *   by reference) are rejected with a `TypeError`.
+   *
+   * Only keys of new entries are frozen or cloned; setting the value of an existing key keeps the stored key.
+   */
+  keyPolicy?: KeyPolicy;
+  /**
+   * Validates the stored keys (see `validate`) whenever a lookup misses and before the map resizes, throwing an error
+   * that names the first key that was mutated since it was inserted. Defaults to `false`.
+   * This rehashes all keys on every miss, so it's meant for development and tests only.
+   */
+  devMode?: boolean;
 }
 
 /**
- * @interal - wraps stored values to keep track of order.
+ * @internal - a secondary hash for the default `equals`, which orders keys with colliding hashes in treeified buckets.
  */
-interface ObjectMapNode<K, V> {
-  key: K;
-  value: V;
-  prev: K | null;
-  next: K | null;
-}
+const tiebreakHash = createComparator().tiebreak!;
 
 /**
  * A Map data structure that compares keys by value rather than by reference.
@@ -42,15 +111,29 @@ interface ObjectMapNode<K, V> {
  * @see https://github.com/nitzanhen/objectmap.js
  */
 export class ObjectMap<K, V> implements Map<K, V> {
-  protected buckets: Array<ObjectMapNode<K, V>[] | undefined>;
-  protected first: K | null;
-  protected last: K | null;
+  protected storage: MapStorage<K, V>;
 
   protected loadFactor: number;
-  protected _size: number;
+  protected shrinkFactor: number | undefined;
+  /** The capacity below which the map doesn't shrink */
+  protected minCapacity: number;
 
   protected _equals: (a: unknown, b: unknown) => boolean;
   protected _hash: (value: unknown) => number;
+  protected _keyCache: KeyCachePolicy | undefined;
+  protected _seed: number | undefined;
+  protected _probe: ((key: unknown) => Iterable<number>) | undefined;
+  protected _tiebreak: ((key: unknown) => number) | undefined;
+  protected _keyTransform: ((key: any) => unknown) | undefined;
+  protected _storage: StorageType | undefined;
+  protected _keyPolicy: KeyPolicy | undefined;
+  /** Applied to keys of new entries, according to `_keyPolicy` */
+  protected adoptKey: (<T>(key: T) => T) | undefined;
+  protected _devMode: boolean | undefined;
+
+  /** `_equals` and `_hash`, applied to transformed keys and memoized according to `_keyCache`; used for keys only. */
+  protected _keyEquals: (a: unknown, b: unknown) => boolean;
+  protected _keyHash: (value: unknown) => number;
 
   /**
    * @param iterable an iterable of key-value pairs, used to initialize the map.  
@@ -67,23 +150,79 @@ export class ObjectMap<K, V> implements Map<K, V> {
     const loadFactor = options.loadFactor
       || (iterable instanceof ObjectMap && iterable.loadFactor)
       || 0.75;
+    const shrinkFactor = options.shrinkFactor
+      ?? (iterable instanceof ObjectMap ? iterable.shrinkFactor : undefined);
+    if (shrinkFactor !== undefined && !(shrinkFactor >= 0 && shrinkFactor < loadFactor / 2)) {
+      throw new RangeError(`shrinkFactor (${shrinkFactor}) should be between 0 and half of loadFactor (${loadFactor})`);
+    }
     const _equals = options.equals
       || (iterable instanceof ObjectMap && iterable._equals)
       || defaultEquals;
+    const seed = options.seed === 'random' ? randomSeed() : options.seed;
     const _hash = options.hash
+      || (seed !== undefined && createSeededHash(seed))
       || (iterable instanceof ObjectMap && iterable._hash)
       || defaultHash;
+    const _seed = seed
+      ?? (iterable instanceof ObjectMap && iterable._hash === _hash ? iterable._seed : undefined);
+
+    const _probe = options.probe
+      || (iterable instanceof ObjectMap && iterable._hash === _hash ? iterable._probe : undefined);
+    const _tiebreak = options.tiebreak
+      || (iterable instanceof ObjectMap && iterable._equals === _equals ? iterable._tiebreak : undefined);
+
+    const _keyCache = options.keyCache
+      || (iterable instanceof ObjectMap ? iterable._keyCache : undefined);
+    const _keyTransform = options.keyTransform
+      || (iterable instanceof ObjectMap ? iterable._keyTransform : undefined);
+    const _storage = options.storage
+      || (iterable instanceof ObjectMap ? iterable._storage : undefined);
+    const _keyPolicy = options.keyPolicy
+      || (iterable instanceof ObjectMap ? iterable._keyPolicy : undefined);
+    const _devMode = options.devMode
+      ?? (iterable instanceof ObjectMap ? iterable._devMode : undefined);
 
-    this.buckets = new Array(initialCapacity);
     this.loadFactor = loadFactor;
+    this.shrinkFactor = shrinkFactor;
+    this.minCapacity = initialCapacity;
     this._equals = _equals;
     this._hash = _hash;
+    this._keyCache = _keyCache;
+    this._seed = _seed;
+    this._probe = _probe;
+    this._tiebreak = _tiebreak;
+    this._keyTransform = _keyTransform;
+    this._storage = _storage;
+    this._keyPolicy = _keyPolicy;
+    this.adoptKey = _keyPolicy === 'freeze' ? deepFreeze
+      : _keyPolicy === 'clone' ? key => this.cloneKey(key)
+        : undefined;
+    this._devMode = _devMode;
+
+    if (
+      iterable instanceof ObjectMap
+      && iterable._equals === _equals
+      && iterable._hash === _hash
+      && iterable._keyCache === _keyCache
+      && iterable._keyTransform === _keyTransform
+    ) {
+      // Share the memoized functions (and their caches) with the copied map
+      this._keyEquals = iterable._keyEquals;
+      this._keyHash = iterable._keyHash;
+    }
+    else {
+      this._keyEquals = memoizeEquals(this.transformed(_equals), _keyCache ?? 'none');
+      this._keyHash = memoizeHash(this.transformed(_hash), _keyCache ?? 'none');
+    }
 
-    this.first = null;
-    this.last = null;
-    this._size = 0;
+    this.storage = this.createStorage(initialCapacity);
 
-    if (iterable) {
+    if (iterable instanceof ObjectMap && iterable._keyHash === this._keyHash) {
+      // Same hash function - reuse the stored hashes; keys are already owned if the key policy is the same
+      const adopt = iterable._keyPolicy === _keyPolicy ? undefined : this.adoptKey;
+      iterable.storage.forEachEntry((key: K, value: V, hash: number) => this.setWithHash(key, value, hash, adopt));
+    }
+    else if (iterable) {
       for (const [key, value] of iterable) {
         this.set(key, value);
       }
@@ -91,181 +230,262 @@ export class ObjectMap<K, V> implements Map<K, V> {
   }
 
   get size(): number {
-    return this._size;
+    return this.storage.size;
   }
 
   get capacity(): number {
-    return this.buckets.length;
+    return this.storage.capacity;
   }
 
   get options(): Omit<ObjectMapOptions, 'initialCapacity'> {
     return {
       loadFactor: this.loadFactor,
+      shrinkFactor: this.shrinkFactor,
       equals: this._equals,
-      hash: this._hash
+      hash: this._hash,
+      keyCache: this._keyCache,
+      seed: this._seed,
+      probe: this._probe,
+      tiebreak: this._tiebreak,
+      keyTransform: this._keyTransform,
+      storage: this._storage,
+      keyPolicy: this._keyPolicy,
+      devMode: this._devMode
     };
   }
 
-  protected hash(key: K, capacity = this.capacity): number {
-    return this._hash(key) % capacity;
+  /**
+   * @returns the full hash of the key, as stored alongside it.
+   */
+  protected hash(key: K): number {
+    return normalizeHash(this._keyHash(key));
   }
 
-  protected resize(capacity: number): void {
-    const buckets = new Array(capacity);
-    for (const node of this.nodes()) {
-      const h = this.hash(node.key, capacity);
-      if (!buckets[h]) {
-        buckets[h] = [];
-      }
-      buckets[h].push({ ...node });
+  /**
+   * Applies the function to transformed keys, if there's a `keyTransform`.
+   */
+  protected transformed<F extends (...keys: any[]) => unknown>(fn: F): F {
+    const transform = this._keyTransform;
+    return transform ? ((...keys: unknown[]) => fn(...keys.map(transform))) as F : fn;
+  }
+
+  /**
+   * Creates an empty storage of the map's type, using the map's key functions.
+   */
+  protected createStorage(capacity: number): MapStorage<K, V> {
+    const probe = this._probe && this.transformed(this._probe);
+    // Keys with colliding hashes can be told apart by a differently-seeded hash, only if it agrees with `equals`
+    const secondary = this._tiebreak ?? (this._equals === defaultEquals ? tiebreakHash : undefined);
+    const tiebreak = secondary && this.transformed(secondary);
+    const keyFunctions: KeyFunctions<K> = { equals: this._keyEquals, probe, tiebreak };
+
+    return this._storage === 'open-addressing'
+      ? new OpenAddressingStorage(capacity, keyFunctions)
+      : new ChainedStorage(capacity, keyFunctions);
+  }
+
+  /**
+   * Copies a key for `keyPolicy: 'clone'`.
+   * @throws a `TypeError` if the copy is not equal to the key, e.g. if `equals` compares its nested objects by reference.
+   */
+  protected cloneKey<T>(key: T): T {
+    const copy = deepClone(key);
+    if (!this._keyEquals(copy, key)) {
+      throw new TypeError(
+        `ObjectMap key ${describeKey(key)} can't be cloned (keyPolicy: 'clone'), as its copy is not equal to it by the map's equals. `
+        + 'This happens when equals compares some of its objects by reference, e.g. beyond maxDepth.'
+      );
     }
+    return copy;
+  }
 
-    this.buckets = buckets;
+  /**
+   * Changes the capacity of the storage; validates the keys first in dev mode.
+   */
+  protected resize(capacity: number): void {
+    if (this._devMode) {
+      this.validate();
+    }
+    this.storage.resize(capacity);
   }
 
-  set(key: K, value: V): this {
-    const h = this.hash(key);
-    if (!this.buckets[h]) {
-      this.buckets[h] = [];
+  /**
+   * Called when a lookup misses; validates the keys in dev mode, since the key may have been stored and then mutated.
+   */
+  protected missed(): void {
+    if (this._devMode) {
+      this.validate();
     }
-    const bucket = this.buckets[h]!;
-    for (let i = 0; i < bucket.length; i++) {
-      const { key: k } = bucket[i];
-      if (this._equals(key, k)) {
-        // `bucket` is not empty, and the key exists in the map. Replace & return
-        bucket[i].value = value;
-        return this;
+  }
+
+  /**
+   * Checks that the hash of each stored key, computed from its current contents, matches the hash it was stored under.
+   * A mismatch means that the key was mutated after it was inserted, which makes its entry unreachable.
+   * @throws an `Error` naming the first such key.
+   * @returns this
+   */
+  validate(): this {
+    // Not memoized, as memoized hashes may be stale
+    const hash = this.transformed(this._hash);
+    let index = 0;
+    this.storage.forEachEntry((key, _, stored) => {
+      const current = normalizeHash(hash(key));
+      if (current !== stored) {
+        throw new Error(
+          `ObjectMap key ${describeKey(key)} (entry #${index}) was mutated after it was inserted: `
+          + `its hash changed from ${stored} to ${current}. `
+          + `Avoid mutating keys (see the keyPolicy option), or call rehash() after mutating them.`
+        );
       }
+      index++;
+    });
+    return this;
+  }
+
+  /**
+   * Recomputes the hashes of all keys from their current contents and rebuilds the map; use after keys were mutated.
+   * Entries whose keys have become equal are merged into the first of them, keeping its key and position.
+   * @param onConflict resolves the value of merged entries, given the values of the first and the later entry
+   * and the later entry's key; defaults to keeping the later value, as `set` would.
+   * @returns this
+   */
+  rehash(onConflict: (existing: V, duplicate: V, key: K) => V = (_, duplicate) => duplicate): this {
+    // Memoized hashes & comparisons may be stale
+    if (this._keyCache && this._keyCache !== 'none') {
+      this._keyEquals = memoizeEquals(this.transformed(this._equals), this._keyCache);
+      this._keyHash = memoizeHash(this.transformed(this._hash), this._keyCache);
     }
 
-    // `bucket` is empty or does not contain the key; insert it
-    bucket.push({
-      key,
-      value,
-      prev: this.last,
-      next: null
+    const previous = this.storage;
+    this.storage = this.createStorage(previous.capacity);
+    previous.forEachEntry((key, value) => {
+      const h = this.hash(key);
+      if (this.storage.has(key, h)) {
+        this.storage.set(key, onConflict(this.storage.get(key, h)!, value, key), h);
+      }
+      else {
+        this.storage.set(key, value, h);
+      }
     });
-    this._size++;
 
-    // Update `this.last`
-    if (this.last !== null) {
-      const node = this.getNode(this.last)!;
-      node.next = key;
+    return this;
+  }
+
+  /**
+   * Grows the map, if needed, so that it can hold `size` entries without growing again.
+   * Useful before adding many entries at once.
+   * @returns this
+   */
+  ensureCapacity(size: number): this {
+    const capacity = Math.ceil(size / this.loadFactor);
+    if (capacity > this.capacity) {
+      this.resize(capacity);
     }
-    this.last = key;
+    return this;
+  }
 
-    // And if this is the first element, update `this.first`
-    if (this.first === null) {
-      this.first = key;
+  /**
+   * Shrinks the map's capacity to the minimum that holds its current entries (within the load factor),
+   * e.g. after deleting many entries.
+   * @returns this
+   */
+  trimToSize(): this {
+    const capacity = Math.max(1, Math.ceil(this.size / this.loadFactor));
+    if (capacity !== this.capacity) {
+      this.resize(capacity);
     }
+    return this;
+  }
 
-    // // Resize if needed
-    // if (this.size / this.capacity > this.loadFactor) {
-    //   this.resize(this.capacity * 2);
-    // }
+  set(key: K, value: V): this {
+    return this.setWithHash(key, value, this.hash(key), this.adoptKey);
+  }
 
+  /**
+   * `set`, with the key's hash already computed.
+   * @param adopt applied to the key if it's inserted; see `keyPolicy`.
+   */
+  protected setWithHash(key: K, value: V, h: number, adopt: ((key: K) => K) | undefined): this {
+    this.storage.set(key, value, h, adopt);
+    this.grow();
     return this;
   }
 
-  protected getNode(key: K): ObjectMapNode<K, V> | undefined {
-    const h = this.hash(key);
-    const bucket = this.buckets[h];
-    if (!bucket) {
-      return undefined;
+  /**
+   * Associates the value with the key only if the key is not in the map; an existing entry is left as it is.
+   * Unlike `has()` followed by `set()`, the key is hashed and looked up once.
+   * @returns `true` if the entry was inserted, and `false` if the key was already in the map.
+   */
+  setIfAbsent(key: K, value: V): boolean {
+    if (!this.storage.add(key, value, this.hash(key), this.adoptKey)) {
+      return false;
     }
 
-    for (const entry of bucket) {
-      if (this._equals(key, entry.key)) {
-        return entry;
-      }
-    }
+    this.grow();
+    return true;
+  }
 
-    return undefined;
+  /**
+   * Doubles the capacity if the size exceeds the load factor.
+   */
+  protected grow(): void {
+    if (this.size > this.capacity * this.loadFactor) {
+      this.resize(this.capacity * 2);
+    }
   }
 
   get(key: K): V | undefined {
-    return this.getNode(key)?.value;
+    const h = this.hash(key);
+    const value = this.storage.get(key, h);
+    if (value === undefined && this._devMode && !this.storage.has(key, h)) {
+      this.missed();
+    }
+    return value;
   }
 
   delete(key: K): boolean {
-    const h = this.hash(key);
-    const bucket = this.buckets[h];
-    if (!bucket) {
+    if (!this.storage.delete(key, this.hash(key))) {
+      // Key is not in the map
+      this.missed();
       return false;
     }
 
-    for (let i = 0; i < bucket.length; i++) {
-      const { key: k, value, prev, next } = bucket[i];
-      if (this._equals(key, k)) {
-        bucket.splice(i, 1);
-        this._size--;
-        if (prev !== null) {
-          const prevNode = this.getNode(prev)!;
-          prevNode.next = next;
-        }
-        if (next !== null) {
-          const nextNode = this.getNode(next)!;
-          nextNode.prev = prev;
-        }
-        if (this._equals(this.first, key)) {
-          this.first = next;
-        }
-        if (this._equals(this.last, key)) {
-          this.last = prev;
-        }
-        return true;
-      }
+    // Shrink if needed
+    if (
+      this.shrinkFactor !== undefined
+      && this.size < this.capacity * this.shrinkFactor
+      && this.capacity / 2 >= this.minCapacity
+    ) {
+      this.resize(Math.floor(this.capacity / 2));
     }
 
-    // Key is not in the map
-    return false;
+    return true;
   }
 
   has(key: K): boolean {
     // Tempting to use `!!this.get(key)` here, but the value may be a falsy value.
-    const h = this.hash(key);
-    const bucket = this.buckets[h];
-    if (!bucket) {
-      return false
+    const found = this.storage.has(key, this.hash(key));
+    if (!found) {
+      this.missed();
     }
-
-    return bucket.some(({ key: k }) => this._equals(key, k));
+    return found;
   }
 
   clear(): void {
-    this.buckets = new Array(this.buckets.length);
-    this._size = 0;
-    this.first = null;
-    this.last = null;
+    this.storage.clear();
   }
 
-
-  protected * nodes(): Generator<ObjectMapNode<K, V>> {
-    let k = this.first;
-    while (k !== null) {
-      const node = this.getNode(k)!;
-      yield node;
-      k = node.next;
-    }
-  }
-
-  * entries(): Generator<[K, V]> {
-    for (const { key, value } of this.nodes()) {
-      yield [key, value];
-    }
+  entries(): Generator<[K, V]> {
+    return this.storage.entries();
   }
   [Symbol.iterator] = this.entries;
 
-  * keys(): Generator<K> {
-    for (const { key } of this.nodes()) {
-      yield key;
-    }
+  keys(): Generator<K> {
+    return this.storage.keys();
   }
 
-  * values(): Generator<V> {
-    for (const { value } of this.nodes()) {
-      yield value;
-    }
+  values(): Generator<V> {
+    return this.storage.values();
   }
 
   forEach(callbackfn: (value: V, key: K, map: Map<K, V>) => void, thisArg?: any): void {
@@ -365,19 +585,9 @@ export class ObjectMap<K, V> implements Map<K, V> {
    * uses `Array.prototype.sort` under the hood.
    */
   sort(compareFn?: (a: [K, V], b: [K, V]) => number): this {
-    const nodes = [...this.nodes()];
-    nodes.sort(compareFn && ((a, b) => compareFn([a.key, a.value], [b.key, b.value])));
-
-    // After sort, rewrite the order
-    this.first = nodes[0].key;
-    this.last = nodes[nodes.length - 1].key;
-
-    for (let i = 0; i < nodes.length; i++) {
-      const node = nodes[i];
-      node.prev = i === 0 ? null : nodes[i - 1].key;
-      node.next = i === nodes.length - 1 ? null : nodes[i + 1].key;
+    if (compareFn) {
+      this.storage.sort(compareFn);
     }
-
     return this;
   }
 
@@ -428,6 +638,18 @@ export class ObjectMap<K, V> implements Map<K, V> {
     return this;
   }
 
+  /**
+   * Well-known symbol for defining a custom hash code, used by the default `hash` function.
+   * Should be defined together with `ObjectMap.equals`.
+   */
+  static readonly hash: typeof hashSymbol = hashSymbol;
+
+  /**
+   * Well-known symbol for defining custom equality, used by the default `equals` function.
+   * Should be defined together with `ObjectMap.hash`.
+   */
+  static readonly equals: typeof equalsSymbol = equalsSymbol;
+
   /** Static factory for creating a map from a set-like object and a function. */
   static fromSet<K, V>(
     set: SetLike<K>,
@@ -440,4 +662,21 @@ export class ObjectMap<K, V> implements Map<K, V> {
     }
     return map;
   }
-}
\ No newline at end of file
+}
+/**
+ * @internal - a short description of a key for error messages; JSON for plain data, if it's short enough.
+ */
+function describeKey(key: unknown): string {
+  if (typeof key === 'string' || Array.isArray(key) || (!!key && typeof key === 'object' && Object.getPrototypeOf(key) === Object.prototype)) {
+    try {
+      const json = JSON.stringify(key);
+      if (json !== undefined && json.length <= 100) {
+        return json;
+      }
+    }
+    catch {
+      // e.g. cycles or bigints - fall back to the short description
+    }
+  }
+  return formatValue(key);
+}
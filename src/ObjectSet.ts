@@ -24,9 +24,15 @@ export class ObjectSet<T> implements Set<T> {
    */
   constructor(iterable?: Iterable<T>, options: Partial<ObjectMapOptions> = {}) {
     this._map = new ObjectMap(
-      iterable instanceof ObjectSet ? iterable._map : toMapIterable(iterable),
+      iterable instanceof ObjectSet ? iterable._map : undefined,
       options
     );
+
+    if (iterable && !(iterable instanceof ObjectSet)) {
+      for (const value of iterable) {
+        this.add(value);
+      }
+    }
   }
 
   get size(): number {
@@ -34,7 +40,8 @@ export class ObjectSet<T> implements Set<T> {
   }
 
   add(value: T): this {
-    this._map.set(value, value);
+    // The member from the first insertion is kept (as its key), so it's kept as the value too
+    this._map.setIfAbsent(value, value);
     return this;
   }
 
@@ -51,7 +58,10 @@ export class ObjectSet<T> implements Set<T> {
   }
 
   *entries(): IterableIterator<[T, T]> {
-    yield* this._map.entries();
+    // Members are iterated as the map's keys, which are the stored members (e.g. copies, with `keyPolicy: 'clone'`)
+    for (const key of this._map.keys()) {
+      yield [key, key];
+    }
   }
 
   *keys(): IterableIterator<T> {
@@ -59,12 +69,15 @@ export class ObjectSet<T> implements Set<T> {
   }
 
   *values(): IterableIterator<T> {
-    yield* this._map.values();
+    yield* this._map.keys();
   }
   [Symbol.iterator] = this.values;
 
   forEach(callbackfn: (value: T, key: T, set: ObjectSet<T>) => void, thisArg?: any): void {
-    this._map.forEach((v, k) => callbackfn(v, k, this), thisArg);
+    // Like `entries()`, passes the stored members (the map's keys)
+    for (const key of this._map.keys()) {
+      callbackfn.call(thisArg, key, key, this);
+    }
   }
 
   get [Symbol.toStringTag]() {
@@ -75,6 +88,48 @@ export class ObjectSet<T> implements Set<T> {
     return this._map.options;
   }
 
+  get capacity(): number {
+    return this._map.capacity;
+  }
+
+  /**
+   * Grows the set, if needed, so that it can hold `size` members without growing again.
+   * @returns this
+   */
+  ensureCapacity(size: number): this {
+    this._map.ensureCapacity(size);
+    return this;
+  }
+
+  /**
+   * Shrinks the set's capacity to the minimum that holds its current members (within the load factor).
+   * @returns this
+   */
+  trimToSize(): this {
+    this._map.trimToSize();
+    return this;
+  }
+
+  /**
+   * Recomputes the hashes of all members from their current contents, e.g. after members were mutated;
+   * members that have become equal are merged into the first of them.
+   * @returns this
+   */
+  rehash(): this {
+    // Keep the first member's value too, so that it stays the same as its key
+    this._map.rehash(existing => existing);
+    return this;
+  }
+
+  /**
+   * Checks that no member was mutated since it was added; see `ObjectMap.validate`.
+   * @returns this
+   */
+  validate(): this {
+    this._map.validate();
+    return this;
+  }
+
   /**
    * Creates a clone of the set; does not create a deep copy of the members.
    * `set.clone()` is equivalent to `new ObjectSet(set)`.
@@ -251,18 +306,6 @@ export class ObjectSet<T> implements Set<T> {
   static valuesOf = valuesOf;
 }
 
-/**
- * Turns a "set" iterator to a "map" iterator by doubling each value into a tuple.
- */
-function* toMapIterable<T>(iterable?: Iterable<T>): Iterable<[T, T]> {
-  if (!iterable) {
-    return undefined;
-  }
-  for (const value of iterable) {
-    yield [value, value];
-  }
-}
-
 function keysOf<K>(map: Map<K, unknown>, options?: Partial<ObjectMapOptions>): ObjectSet<K>;
 function keysOf<K extends string | number | symbol>(obj: Record<K, unknown>, options?: Partial<ObjectMapOptions>): ObjectSet<K>;
 function keysOf(obj: Map<unknown, unknown> | Record<string | number | symbol, unknown>, options: Partial<ObjectMapOptions> = {}): ObjectSet<unknown> {
@@ -0,0 +1,368 @@
+import { bucketIndex, KeyFunctions, MapStorage, normalizeHash } from './storage';
+
+/**
+ * @internal - marks the keys of deleted entries, which are skipped when iterating until the entries are compacted.
+ */
+const HOLE: unique symbol = Symbol('hole');
+
+/** @internal - index slots that are free */
+const EMPTY = 0;
+/** @internal - index slots of deleted entries, which lookups probe past */
+const TOMBSTONE = -1;
+
+/**
+ * @internal - the maximal ratio of used (non-empty) index slots to capacity; above it, the index is rebuilt.
+ * This keeps probe sequences short even when the map itself is allowed to fill up (e.g. `loadFactor=Infinity`).
+ */
+const MAX_LOAD = 0.875;
+
+/**
+ * @internal - the position of an iterator: the index of the next entry to examine, in the given generation's layout.
+ */
+interface Cursor {
+  generation: Generation;
+  position: number;
+}
+
+/**
+ * @internal - the layout of the entry arrays between two compactions; iterators keep the generation their position
+ * refers to, and translate it when the entries are compacted, so that compaction doesn't make them skip entries.
+ * Only the current generation is held by the storage, so older ones are collected along with their iterators.
+ */
+interface Generation {
+  /** The generation that replaced this one, once the entries were compacted */
+  next: Generation | null;
+  /** The (ascending) indices of the holes removed by the compaction, or `'all'` if the entries were cleared */
+  removed: number[] | 'all';
+}
+
+/**
+ * @internal - stores entries in flat, parallel arrays of hashes, keys and values, in insertion order,
+ * with an `Int32Array` index from hashes to entries that's searched by linear probing.
+ * Avoids an object (and a bucket array) per entry, at the cost of rebuilding the index after many deletions.
+ */
+export class OpenAddressingStorage<K, V> implements MapStorage<K, V> {
+  protected hashes: number[];
+  protected keyList: Array<K | typeof HOLE>;
+  protected valueList: Array<V | undefined>;
+  /** Per slot - `EMPTY`, `TOMBSTONE`, or the index of an entry plus one */
+  protected index: Int32Array;
+  /** The number of slots that are not `EMPTY` */
+  protected used: number;
+  protected _size: number;
+  protected generation: Generation;
+
+  constructor(capacity: number, protected fns: KeyFunctions<K>) {
+    this.hashes = [];
+    this.keyList = [];
+    this.valueList = [];
+    this.index = new Int32Array(validCapacity(capacity, 0));
+    this.used = 0;
+    this._size = 0;
+    this.generation = { next: null, removed: [] };
+  }
+
+  get size(): number {
+    return this._size;
+  }
+
+  get capacity(): number {
+    return this.index.length;
+  }
+
+  /**
+   * Finds the slot of the given key - on the probe sequence of its hash, or otherwise on those of its probed hashes.
+   * @returns the slot's index, or `-1` if the key is not stored.
+   */
+  protected locate(key: K, h: number): number {
+    const slot = this.locateIn(h, key);
+    if (slot !== -1 || !this.fns.probe) {
+      return slot;
+    }
+
+    for (const probed of this.fns.probe(key)) {
+      const slot = this.locateIn(normalizeHash(probed), key);
+      if (slot !== -1) {
+        return slot;
+      }
+    }
+
+    return -1;
+  }
+
+  /**
+   * Finds the slot of the given key among the entries with the given hash.
+   */
+  private locateIn(h: number, key: K): number {
+    const { index, hashes, keyList } = this;
+    const capacity = index.length;
+    for (let slot = bucketIndex(h, capacity), n = 0; n < capacity; slot = (slot + 1) % capacity, n++) {
+      const ref = index[slot];
+      if (ref === EMPTY) {
+        return -1;
+      }
+      if (ref !== TOMBSTONE && hashes[ref - 1] === h && this.fns.equals(key, keyList[ref - 1] as K)) {
+        return slot;
+      }
+    }
+
+    return -1;
+  }
+
+  has(key: K, hash: number): boolean {
+    return this.locate(key, hash) !== -1;
+  }
+
+  get(key: K, hash: number): V | undefined {
+    const slot = this.locate(key, hash);
+    return slot === -1 ? undefined : this.valueList[this.index[slot] - 1];
+  }
+
+  set(key: K, value: V, hash: number, adopt?: (key: K) => K): void {
+    const slot = this.locate(key, hash);
+    if (slot !== -1) {
+      // The key exists in the map. Replace & return
+      this.valueList[this.index[slot] - 1] = value;
+      return;
+    }
+
+    this.append(key, value, hash, adopt);
+  }
+
+  add(key: K, value: V, hash: number, adopt?: (key: K) => K): boolean {
+    if (this.locate(key, hash) !== -1) {
+      return false;
+    }
+
+    this.append(key, value, hash, adopt);
+    return true;
+  }
+
+  /**
+   * Appends an entry for a key that is not in the map, and indexes it at the first free slot.
+   */
+  private append(key: K, value: V, hash: number, adopt: ((key: K) => K) | undefined): void {
+    // Adopted first, as adopting may throw
+    const stored = adopt ? adopt(key) : key;
+    if (this.used + 1 > this.capacity * MAX_LOAD || this.holes > this._size) {
+      // Make room first - by dropping the tombstones (and holes) if there are many, or otherwise by doubling the index
+      this.rebuild(this._size + 1 > this.capacity * MAX_LOAD / 2 ? this.capacity * 2 : this.capacity);
+    }
+
+    this.hashes.push(hash);
+    this.keyList.push(stored);
+    this.valueList.push(value);
+    this._size++;
+    if (this.insert(hash, this.hashes.length) === EMPTY) {
+      this.used++;
+    }
+  }
+
+  delete(key: K, hash: number): boolean {
+    const slot = this.locate(key, hash);
+    if (slot === -1) {
+      // Key is not in the map
+      return false;
+    }
+
+    // The entry is left as a hole (so that ongoing iterations aren't shifted), and compacted later
+    const entry = this.index[slot] - 1;
+    this.index[slot] = TOMBSTONE;
+    this.keyList[entry] = HOLE;
+    this.valueList[entry] = undefined;
+    this._size--;
+
+    return true;
+  }
+
+  clear(): void {
+    this.advanceGeneration('all');
+    this.hashes = [];
+    this.keyList = [];
+    this.valueList = [];
+    this.index = new Int32Array(this.capacity);
+    this.used = 0;
+    this._size = 0;
+  }
+
+  /**
+   * Rebuilds the index at the given capacity - at least enough for the entries within the maximal load.
+   * Holes are compacted in the process.
+   */
+  resize(capacity: number): void {
+    this.rebuild(capacity);
+  }
+
+  sort(compareFn: (a: [K, V], b: [K, V]) => number): void {
+    this.compact();
+    const order = this.hashes.map((_, i) => i);
+    order.sort((i, j) => compareFn(
+      [this.keyList[i] as K, this.valueList[i] as V],
+      [this.keyList[j] as K, this.valueList[j] as V]
+    ));
+
+    this.hashes = order.map(i => this.hashes[i]);
+    this.keyList = order.map(i => this.keyList[i]);
+    this.valueList = order.map(i => this.valueList[i]);
+    this.rebuild(this.capacity);
+  }
+
+  * keys(): Generator<K> {
+    const cursor = this.cursor();
+    for (let i = this.seek(cursor); i !== -1; i = this.seek(cursor)) {
+      yield this.keyList[i] as K;
+    }
+  }
+
+  * values(): Generator<V> {
+    const cursor = this.cursor();
+    for (let i = this.seek(cursor); i !== -1; i = this.seek(cursor)) {
+      yield this.valueList[i] as V;
+    }
+  }
+
+  * entries(): Generator<[K, V]> {
+    const cursor = this.cursor();
+    for (let i = this.seek(cursor); i !== -1; i = this.seek(cursor)) {
+      yield [this.keyList[i] as K, this.valueList[i] as V];
+    }
+  }
+
+  forEachEntry(callback: (key: K, value: V, hash: number) => void): void {
+    const { hashes, keyList, valueList } = this;
+    for (let i = 0; i < keyList.length; i++) {
+      const key = keyList[i];
+      if (key !== HOLE) {
+        callback(key, valueList[i] as V, hashes[i]);
+      }
+    }
+  }
+
+  /** The number of deleted entries that were not yet compacted (each has a `TOMBSTONE` slot in the index) */
+  protected get holes(): number {
+    return this.keyList.length - this._size;
+  }
+
+  /**
+   * Indexes an entry (given as its index plus one) at the first free slot of its hash's probe sequence.
+   * @returns the previous value of the slot - `EMPTY` or `TOMBSTONE`.
+   */
+  private insert(h: number, ref: number): number {
+    const { index } = this;
+    let slot = bucketIndex(h, index.length);
+    while (index[slot] > 0) {
+      slot = (slot + 1) % index.length;
+    }
+
+    const previous = index[slot];
+    index[slot] = ref;
+    return previous;
+  }
+
+  /**
+   * Removes the holes from the entry arrays, keeping the order of the entries.
+   */
+  private compact(): void {
+    if (!this.holes) {
+      return;
+    }
+
+    const { hashes, keyList, valueList } = this;
+    const removed: number[] = [];
+    let j = 0;
+    for (let i = 0; i < keyList.length; i++) {
+      if (keyList[i] !== HOLE) {
+        hashes[j] = hashes[i];
+        keyList[j] = keyList[i];
+        valueList[j] = valueList[i];
+        j++;
+      }
+      else {
+        removed.push(i);
+      }
+    }
+    this.advanceGeneration(removed);
+
+    hashes.length = j;
+    keyList.length = j;
+    valueList.length = j;
+  }
+
+  /**
+   * @returns a cursor at the start of the entries.
+   */
+  private cursor(): Cursor {
+    return { generation: this.generation, position: 0 };
+  }
+
+  /**
+   * Advances the cursor past the next entry, with the semantics of native `Map` iterators under mutation:
+   * deleted entries that weren't visited yet are skipped, and entries added during iteration are visited.
+   * @returns the index of the entry, or `-1` if there are no more entries.
+   */
+  private seek(cursor: Cursor): number {
+    // Translate the position to the current layout of the entries
+    for (; cursor.generation.next !== null; cursor.generation = cursor.generation.next) {
+      const { removed } = cursor.generation;
+      cursor.position = removed === 'all' ? 0 : cursor.position - countBelow(removed, cursor.position);
+    }
+
+    const { keyList } = this;
+    for (let i = cursor.position; i < keyList.length; i++) {
+      if (keyList[i] !== HOLE) {
+        cursor.position = i + 1;
+        return i;
+      }
+    }
+
+    cursor.position = keyList.length;
+    return -1;
+  }
+
+  /**
+   * Starts a new generation of the entries' layout, after the given holes were removed.
+   */
+  private advanceGeneration(removed: Generation['removed']): void {
+    const generation: Generation = { next: null, removed: [] };
+    this.generation.removed = removed;
+    this.generation.next = generation;
+    this.generation = generation;
+  }
+
+  /**
+   * Compacts the entries, and indexes them anew at the given capacity (or the minimal valid one, if larger).
+   */
+  private rebuild(capacity: number): void {
+    this.compact();
+    this.index = new Int32Array(validCapacity(capacity, this._size));
+    for (let i = 0; i < this.hashes.length; i++) {
+      this.insert(this.hashes[i], i + 1);
+    }
+    this.used = this._size;
+  }
+}
+
+/**
+ * @internal - the given capacity, or the minimal capacity that holds `size` entries (and another one) within `MAX_LOAD`.
+ */
+function validCapacity(capacity: number, size: number): number {
+  return Math.max(Math.floor(capacity), Math.floor((size + 1) / MAX_LOAD) + 1, 1);
+}
+
+/**
+ * @internal - the number of items in the sorted array that are less than `x`.
+ */
+function countBelow(sorted: number[], x: number): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (sorted[mid] < x) {
+      low = mid + 1;
+    }
+    else {
+      high = mid;
+    }
+  }
+  return low;
+}
@@ -0,0 +1,133 @@
+import type { CompareOptions, Comparator } from './comparator';
+import { createEquals } from './equals';
+import type { TypeHandler } from './handlers';
+import { createHash, hash } from './hash';
+
+/**
+ * Options for `createApproximateComparator`; other than the below, accepts the same options as `createComparator`.
+ */
+export interface ApproximateOptions extends CompareOptions {
+  /**
+   * The tolerance for comparing numbers - two numbers are equal if they differ by at most `epsilon`. Defaults to `1e-9`.
+   */
+  epsilon: number;
+  /**
+   * The size of the cells numbers are quantized to for hashing; defaults to `8 * epsilon`.
+   * Larger cells mean fewer keys near cell boundaries (which require probing), but more numbers with the same hash.
+   */
+  precision: number;
+}
+
+/**
+ * A comparator for approximate numbers, with a `probe` function for keys near cell boundaries.
+ */
+export interface ApproximateComparator extends Comparator {
+  probe: (key: unknown) => Iterable<number>;
+}
+
+/**
+ * Creates a comparator that compares numbers (at any depth) within a tolerance, e.g. for keying a map by float tuples:
+ * ```ts
+ * const map = new ObjectMap(undefined, createApproximateComparator({ epsilon: 1e-9 }));
+ * map.set([0.1 + 0.2, 1], 'a');
+ * map.get([0.3, 1]); // 'a'
+ * ```
+ * Numbers are hashed by the cell they're quantized to (of size `precision`). Numbers within `epsilon` of each other
+ * may still fall into neighbouring cells, so the comparator's `probe` function yields the hashes of the key with such
+ * numbers moved to their neighbouring cells; `ObjectMap` checks these if the key isn't found under its own hash.
+ * Probing costs an extra hash per combination of neighbouring cells - for keys with `n` numbers within `epsilon`
+ * of a cell boundary, `2^n - 1` extra hashes (as long as `precision` is at least `2 * epsilon`).
+ *
+ * Note that approximate equality is not transitive - if `a` equals `b` and `b` equals `c`, `a` doesn't necessarily equal `c`.
+ * When a map contains keys that are close to each other, a lookup may find any of the keys equal to it.
+ */
+export function createApproximateComparator(options: Partial<ApproximateOptions> = {}): ApproximateComparator {
+  const { epsilon = 1e-9, precision = 8 * epsilon, ...compareOptions } = options;
+  if (!(epsilon >= 0) || !(precision > 0) || !Number.isFinite(precision)) {
+    throw new RangeError(`Invalid epsilon (${epsilon}) or precision (${precision})`);
+  }
+
+  const approximatelyEquals = (a: number, b: number): boolean =>
+    a === b || Math.abs(a - b) <= epsilon || (a !== a && b !== b);
+
+  /** The cell of a number, or `undefined` if it can't be quantized (e.g. `NaN` or `Infinity`) */
+  const cellOf = (x: number): number | undefined => {
+    const cell = Math.floor(x / precision);
+    return Number.isFinite(cell) ? cell : undefined;
+  };
+
+  /** Compiles options in which numbers are compared approximately, and hashed by `hashCell` (if they can be quantized) */
+  const withNumbers = (hashCell: (x: number, cell: number) => number): Partial<CompareOptions> => ({
+    ...compareOptions,
+    handlers: [
+      {
+        test: isNumber,
+        equals: approximatelyEquals,
+        hash: (x: number) => {
+          const cell = cellOf(x);
+          return cell === undefined ? hash(x) : hashCell(x, cell);
+        }
+      } satisfies TypeHandler<number>,
+      ...(compareOptions.handlers ?? [])
+    ]
+  });
+
+  const ownCells = withNumbers((_, cell) => hash(cell));
+
+  function* probe(key: unknown): Generator<number> {
+    // The cells that each number in the key (in the order in which they're hashed) may be matched in -
+    // its own cell, followed by the cells of the numbers within `epsilon` of it.
+    const candidates: number[][] = [];
+    createHash(withNumbers((x, own) => {
+      const cells = [own];
+      const first = cellOf(x - epsilon) ?? own;
+      const last = cellOf(x + epsilon) ?? own;
+      // Beyond the safe integers, cells can't be enumerated (`cell++` may not advance); such numbers are only probed
+      // in their own cell
+      if (first !== last && Number.isSafeInteger(first) && Number.isSafeInteger(last)) {
+        for (let cell = first; cell <= last; cell++) {
+          if (cell !== own) {
+            cells.push(cell);
+          }
+        }
+      }
+      candidates.push(cells);
+      return 0;
+    }))(key);
+
+    // Yield the hash of each combination of cells, except for the key's own cells (whose hash is the key's hash)
+    const choice = new Array<number>(candidates.length).fill(0);
+    while (increment(choice, candidates)) {
+      let i = 0;
+      yield createHash(withNumbers(() => {
+        const cell = candidates[i][choice[i]];
+        i++;
+        return hash(cell);
+      }))(key);
+    }
+  }
+
+  return {
+    equals: createEquals(ownCells),
+    hash: createHash(ownCells),
+    probe
+  };
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number';
+}
+
+/**
+ * Advances `choice` (a mixed-radix counter over the `options` of each position) to the next combination.
+ * @returns `false` once all combinations were visited.
+ */
+function increment(choice: number[], options: unknown[][]): boolean {
+  for (let i = 0; i < choice.length; i++) {
+    if (++choice[i] < options[i].length) {
+      return true;
+    }
+    choice[i] = 0;
+  }
+  return false;
+}
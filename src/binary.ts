@@ -0,0 +1,22 @@
+/**
+ * @internal - binary data types, compared and hashed by their raw bytes.
+ */
+export type BinaryData = ArrayBufferView | ArrayBuffer | SharedArrayBuffer;
+
+/**
+ * @internal - `true` if the value is a typed array, a `DataView`, an `ArrayBuffer` or a `SharedArrayBuffer`.
+ */
+export function isBinaryData(value: object): value is BinaryData {
+  return ArrayBuffer.isView(value)
+    || value instanceof ArrayBuffer
+    || (typeof SharedArrayBuffer !== 'undefined' && value instanceof SharedArrayBuffer);
+}
+
+/**
+ * @internal - a byte view of the given data, without copying it.
+ */
+export function toBytes(value: BinaryData): Uint8Array {
+  return ArrayBuffer.isView(value)
+    ? new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+    : new Uint8Array(value);
+}
@@ -0,0 +1,90 @@
+import { createEquals } from './equals';
+import type { TypeHandler } from './handlers';
+import { createHash, HashOptions } from './hash';
+
+/**
+ * Options for customizing deep equality and hashing, shared by `createEquals`, `createHash` and `createComparator`.
+ * A hash function and an equality function should always be created with the same options, so that equal values have equal hashes.
+ */
+export interface CompareOptions {
+  /**
+   * Custom handlers for specific types of values, checked in order before the built-in handling, at any depth.
+   * @see TypeHandler
+   */
+  handlers: readonly TypeHandler[];
+  /**
+   * If `true`, values that can't be meaningfully compared by their contents - functions, symbols, weak collections,
+   * promises and class instances with no own keys - are compared by reference, and hashed by a stable per-identity id.
+   */
+  identity: boolean;
+  /**
+   * Object keys to ignore, at any depth; e.g. `['updatedAt', '_rev', '__typename']`.
+   */
+  ignoreKeys: readonly PropertyKey[];
+  /**
+   * Dot-separated paths of object properties to ignore, starting from the root value; e.g. `'meta.updatedAt'`.
+   * A `*` segment matches any single key or array index, e.g. `'items.*.updatedAt'`.
+   */
+  ignorePaths: readonly string[];
+  /**
+   * Objects nested deeper than this are compared by reference (and hashed by identity), rather than by their contents;
+   * e.g. with `maxDepth: 1`, the root value and its direct children are compared by contents. Defaults to `Infinity`.
+   */
+  maxDepth: number;
+  /**
+   * If `true`, own enumerable symbol-keyed properties are compared as well; by default, only string keys are.
+   * Symbol keys have no natural order, so they're hashed in an order-independent way -
+   * the hash doesn't depend on the order in which the symbol keys were defined.
+   */
+  includeSymbols: boolean;
+  /**
+   * If `true`, own non-enumerable properties are compared as well (including symbol-keyed ones, if symbols are included);
+   * by default, only enumerable ones are.
+   */
+  includeNonEnumerable: boolean;
+  /**
+   * If `true`, objects are compared by their own properties regardless of their prototypes, e.g. an instance of a class
+   * equals a plain object with the same properties.
+   * Built-in kinds are still told apart - arrays, sets, maps, dates, regexes and binary data only equal values of the same kind.
+   */
+  ignorePrototypes: boolean;
+  /**
+   * If `true`, properties whose value is `undefined` are treated as missing, e.g. `{ a: 1, b: undefined }` equals `{ a: 1 }`.
+   * Array items are not affected.
+   */
+  undefinedAsAbsent: boolean;
+  /**
+   * If `true`, primitives are compared with `Object.is` semantics rather than `===`, i.e. `-0` and `0` are not equal.
+   * `NaN` is equal to itself either way.
+   */
+  objectIs: boolean;
+}
+
+/**
+ * A matching pair of equality and hash functions; can be spread into the options of an `ObjectMap`.
+ */
+export interface Comparator {
+  equals: (a: unknown, b: unknown) => boolean;
+  hash: (value: unknown) => number;
+  /** A secondary hash, seeded differently than `hash`; see `ObjectMapOptions.tiebreak` */
+  tiebreak?: (value: unknown) => number;
+}
+
+/**
+ * @internal - mixed into the seed of the secondary hash, so that it's independent of the primary one.
+ */
+const TIEBREAK_SEED = 0x9e3779b9;
+
+/**
+ * Creates a matching pair of equality and hash functions with the given options, which are guaranteed to be consistent -
+ * values that are equal have the same hash.
+ * @example
+ * const map = new ObjectMap(undefined, createComparator({ ignoreKeys: ['updatedAt'] }));
+ */
+export function createComparator(options: Partial<HashOptions> = {}): Comparator {
+  return {
+    equals: createEquals(options),
+    hash: createHash(options),
+    tiebreak: createHash({ ...options, seed: (options.seed ?? 0) ^ TIEBREAK_SEED })
+  };
+}
@@ -0,0 +1,46 @@
+type Hash = number;
+
+/**
+ * @internal - a 53-bit hash of the string, seeded by `seed`. See 
+ * https://stackoverflow.com/questions/6122571/simple-non-secure-hash-function-for-javascript
+ * https://stackoverflow.com/questions/7616461/generate-a-hash-from-string-in-javascript
+ * https://github.com/bryc/code/blob/master/jshash/experimental/cyrb53.js
+ */
+export function hashString(value: string, seed: number): Hash {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0, ch; i < value.length; i++) {
+    ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+
+  return cyrb53Final(h1, h2);
+}
+
+/**
+ * @internal - same as `hashString`, but reads raw bytes rather than char codes.
+ */
+export function hashBytes(value: Uint8Array, seed: number): Hash {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0, byte; i < value.length; i++) {
+    byte = value[i];
+    h1 = Math.imul(h1 ^ byte, 2654435761);
+    h2 = Math.imul(h2 ^ byte, 1597334677);
+  }
+
+  return cyrb53Final(h1, h2);
+}
+
+/**
+ * @internal - cyrb53's final mixing of its two 32-bit states into a 53-bit hash.
+ */
+export function cyrb53Final(h1: number, h2: number): Hash {
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
@@ -0,0 +1,315 @@
+import { isBinaryData } from './binary';
+import { equals } from './equals';
+import { hasKey } from './keys';
+import { isValueObject, valueObjectEquals } from './protocol';
+
+const isObject = (x: unknown): x is object => !!x && typeof x === 'object';
+
+/**
+ * A single difference between two values, found by `diff`.
+ */
+export interface Difference {
+  /**
+   * The path from the roots to the differing values - object keys, array indices, map keys and set members.
+   * Empty if the roots themselves differ.
+   */
+  path: unknown[];
+  /**
+   * - `added` - the value exists only in `b`;
+   * - `removed` - the value exists only in `a`;
+   * - `changed` - the values are of the same type, but are not equal;
+   * - `type-mismatch` - the values are of different types (or have different constructors).
+   */
+  kind: 'added' | 'removed' | 'changed' | 'type-mismatch';
+  /** The value in `a`, or `undefined` if it was added */
+  a: unknown;
+  /** The value in `b`, or `undefined` if it was removed */
+  b: unknown;
+}
+
+/**
+ * @internal - state threaded through a single diff.
+ */
+interface DiffContext {
+  /** The objects on the path from the root of `a`, used to detect cycles */
+  aStack: object[];
+  /** The objects on the path from the root of `b`, used to detect cycles */
+  bStack: object[];
+  /** The keys on the path from the roots */
+  path: unknown[];
+  differences: Difference[];
+}
+
+/**
+ * Finds the differences between two values, following the same rules as `equals` -
+ * `diff(a, b)` is empty iff `equals(a, b)`.
+ * Useful for debugging why two keys are not equal.
+ * @example
+ * diff({ id: 1, tags: ['a'] }, { id: 1, tags: ['b'], name: 'x' });
+ * // [
+ * //   { path: ['tags', 0], kind: 'changed', a: 'a', b: 'b' },
+ * //   { path: ['name'], kind: 'added', a: undefined, b: 'x' }
+ * // ]
+ */
+export function diff(a: unknown, b: unknown): Difference[] {
+  const ctx: DiffContext = { aStack: [], bStack: [], path: [], differences: [] };
+  diffValues(a, b, ctx);
+  return ctx.differences;
+}
+
+/**
+ * Describes the differences between two values in a human-readable form, one difference per line; e.g.
+ * ```
+ * $.tags[0]: changed from "a" to "b"
+ * $.name: added "x"
+ * ```
+ * @see diff
+ */
+export function explainInequality(a: unknown, b: unknown): string {
+  const differences = diff(a, b);
+  if (!differences.length) {
+    return 'The values are equal';
+  }
+
+  return differences.map(({ path, kind, a, b }) => {
+    const at = formatPath(path);
+    switch (kind) {
+      case 'added':
+        return `${at}: added ${formatValue(b)}`;
+      case 'removed':
+        return `${at}: removed ${formatValue(a)}`;
+      case 'changed':
+        return `${at}: changed from ${formatValue(a)} to ${formatValue(b)}`;
+      case 'type-mismatch':
+        return `${at}: type mismatch, ${formatValue(a)} vs. ${formatValue(b)}`;
+    }
+  }).join('\n');
+}
+
+function report(kind: Difference['kind'], a: unknown, b: unknown, ctx: DiffContext): void {
+  ctx.differences.push({ path: [...ctx.path], kind, a, b });
+}
+
+function reportAt(kind: Difference['kind'], a: unknown, b: unknown, segment: unknown, ctx: DiffContext): void {
+  ctx.path.push(segment);
+  report(kind, a, b, ctx);
+  ctx.path.pop();
+}
+
+/**
+ * Mirrors `deepEquals`, reporting differences rather than returning early.
+ */
+function diffValues(a: unknown, b: unknown, ctx: DiffContext): void {
+  // As in `deepEquals`, nested objects are not compared by reference
+  if (a === b && (!isObject(a) || !ctx.aStack.length)) {
+    return;
+  }
+
+  if (!isObject(a) || !isObject(b)) {
+    // NaN equals itself
+    if (a !== a && b !== b) {
+      return;
+    }
+    const sameType = typeof a === typeof b && (a === null) === (b === null);
+    report(sameType ? 'changed' : 'type-mismatch', a, b, ctx);
+    return;
+  }
+
+  // Value objects - defer to their own equality
+  if (isValueObject(a)) {
+    if (!valueObjectEquals(a, b)) {
+      report('changed', a, b, ctx);
+    }
+    return;
+  }
+  if (isValueObject(b)) {
+    if (!valueObjectEquals(b, a)) {
+      report('changed', a, b, ctx);
+    }
+    return;
+  }
+
+  if (a.constructor !== b.constructor) {
+    report('type-mismatch', a, b, ctx);
+    return;
+  }
+
+  // Cycles - equal iff both were visited at the same depth
+  const { aStack, bStack } = ctx;
+  const aIndex = aStack.lastIndexOf(a);
+  const bIndex = bStack.lastIndexOf(b);
+  if (aIndex !== -1 || bIndex !== -1) {
+    if (aIndex !== bIndex) {
+      report('changed', a, b, ctx);
+    }
+    return;
+  }
+
+  aStack.push(a);
+  bStack.push(b);
+  diffObjects(a, b, ctx);
+  aStack.pop();
+  bStack.pop();
+}
+
+function diffValuesAt(a: unknown, b: unknown, segment: unknown, ctx: DiffContext): void {
+  ctx.path.push(segment);
+  diffValues(a, b, ctx);
+  ctx.path.pop();
+}
+
+/**
+ * @internal - expects two distinct objects with the same constructor, that are not on the current path.
+ */
+function diffObjects(a: object, b: object, ctx: DiffContext): void {
+  // Array - compared index-wise
+  if (Array.isArray(a) && Array.isArray(b)) {
+    const length = Math.max(a.length, b.length);
+    for (let i = 0; i < length; i++) {
+      if (i >= b.length) {
+        reportAt('removed', a[i], undefined, i, ctx);
+      }
+      else if (i >= a.length) {
+        reportAt('added', undefined, b[i], i, ctx);
+      }
+      else {
+        diffValuesAt(a[i], b[i], i, ctx);
+      }
+    }
+    return;
+  }
+
+  // Set - members that have no equal member in the other set are reported as removed/added
+  if (a instanceof Set && b instanceof Set) {
+    const [removed, added] = unmatched([...a].filter(x => !b.has(x)), [...b].filter(x => !a.has(x)), equals);
+    removed.forEach(x => reportAt('removed', x, undefined, x, ctx));
+    added.forEach(y => reportAt('added', undefined, y, y, ctx));
+    return;
+  }
+
+  // Map - entries are matched by key, by reference first; the values of matching keys are diffed
+  if (a instanceof Map && b instanceof Map) {
+    for (const key of a.keys()) {
+      if (b.has(key)) {
+        diffValuesAt(a.get(key), b.get(key), key, ctx);
+      }
+    }
+
+    // The rest of the entries are matched by value - entirely equal entries first, then by key alone
+    const [aRest, bRest] = unmatched(
+      [...a.keys()].filter(key => !b.has(key)),
+      [...b.keys()].filter(key => !a.has(key)),
+      (x, y) => equals(x, y) && equals(a.get(x), b.get(y))
+    );
+    const [removed, added, matched] = unmatched(aRest, bRest, equals);
+    matched.forEach(([x, y]) => diffValuesAt(a.get(x), b.get(y), x, ctx));
+    removed.forEach(key => reportAt('removed', a.get(key), undefined, key, ctx));
+    added.forEach(key => reportAt('added', undefined, b.get(key), key, ctx));
+    return;
+  }
+
+  // Dates, regexes & binary data - compared as a whole
+  if (a instanceof Date || a instanceof RegExp || isBinaryData(a)) {
+    if (!equals(a, b)) {
+      report('changed', a, b, ctx);
+    }
+    return;
+  }
+
+  // Keys & values
+  for (const key of Object.keys(a)) {
+    if (hasKey(b, key)) {
+      diffValuesAt((a as any)[key], (b as any)[key], key, ctx);
+    }
+    else {
+      reportAt('removed', (a as any)[key], undefined, key, ctx);
+    }
+  }
+  for (const key of Object.keys(b)) {
+    if (!hasKey(a, key)) {
+      reportAt('added', undefined, (b as any)[key], key, ctx);
+    }
+  }
+}
+
+/**
+ * Greedily matches items of `xs` with distinct equal items of `ys`.
+ * @returns the unmatched items of `xs`, the unmatched items of `ys`, and the matched pairs.
+ */
+function unmatched<T>(xs: T[], ys: T[], matches: (x: T, y: T) => boolean): [T[], T[], [T, T][]] {
+  const used = new Array<boolean>(ys.length).fill(false);
+  const rest: T[] = [];
+  const pairs: [T, T][] = [];
+  for (const x of xs) {
+    const j = ys.findIndex((y, i) => !used[i] && matches(x, y));
+    if (j === -1) {
+      rest.push(x);
+    }
+    else {
+      used[j] = true;
+      pairs.push([x, ys[j]]);
+    }
+  }
+  return [rest, ys.filter((_, i) => !used[i]), pairs];
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * @internal - formats a path in a JS-like notation, e.g. `$.items[0].name`.
+ */
+function formatPath(path: unknown[]): string {
+  let result = '$';
+  for (const segment of path) {
+    if (typeof segment === 'string' && IDENTIFIER.test(segment)) {
+      result += `.${segment}`;
+    }
+    else if (typeof segment === 'number') {
+      result += `[${segment}]`;
+    }
+    else {
+      result += `[${formatValue(segment)}]`;
+    }
+  }
+  return result;
+}
+
+/**
+ * @internal - a short, single-line representation of a value.
+ */
+export function formatValue(value: unknown): string {
+  switch (typeof value) {
+    case 'string':
+      return JSON.stringify(value);
+    case 'number':
+      return Object.is(value, -0) ? '-0' : String(value);
+    case 'bigint':
+      return `${value}n`;
+    case 'symbol':
+      return value.toString();
+    case 'function':
+      return `[Function ${value.name || '(anonymous)'}]`;
+    case 'undefined':
+    case 'boolean':
+      return String(value);
+  }
+
+  if (value === null) {
+    return 'null';
+  }
+  if (value instanceof Date) {
+    return `Date(${isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString()})`;
+  }
+  if (value instanceof RegExp) {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return `Array(${value.length})`;
+  }
+  if (value instanceof Set || value instanceof Map) {
+    return `${value.constructor.name}(${value.size})`;
+  }
+
+  const name = (value as object).constructor?.name ?? 'Object';
+  return `${name} {${Object.keys(value as object).join(', ')}}`;
+}
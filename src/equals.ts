@@ -1,12 +1,96 @@
+import { isBinaryData, toBytes } from './binary';
+import type { CompareOptions } from './comparator';
+import type { TypeHandler } from './handlers';
+import { isOpaque } from './identity';
+import { createKeySelection, hasKey, KeySelection, MEMBER_SEGMENT, selectStringKeys, selectSymbolKeys } from './keys';
+import { isValueObject, valueObjectEquals } from './protocol';
 
 const isObject = (x: unknown): x is object => !!x && typeof x === 'object';
 
+/**
+ * Options for `createEquals`.
+ * @see CompareOptions
+ */
+export type EqualsOptions = CompareOptions;
+
+/**
+ * @internal - options, compiled once per equality function.
+ */
+interface EqualsConfig {
+  handlers: readonly TypeHandler[];
+  identity: boolean;
+  maxDepth: number;
+  keys: KeySelection | undefined;
+  ignorePrototypes: boolean;
+  objectIs: boolean;
+}
+
+/**
+ * @internal - state threaded through a single comparison.
+ */
+interface EqualsContext extends EqualsConfig {
+  /** The objects on the path from the root of `a`, used to detect cycles */
+  aStack: object[];
+  /** The objects on the path from the root of `b`, used to detect cycles */
+  bStack: object[];
+  /** The keys on the path from the roots; only tracked if there are ignored paths */
+  keyPath: PropertyKey[] | undefined;
+}
+
 /**
  * Deep equality function. Draws inspiration from `fast-deep-equal`'s implementation.
+ * Handles cyclic structures - two such structures are equal if they are isomorphic,
+ * i.e. they refer back to themselves at the same positions.
  */
 export function equals(a: unknown, b: unknown): boolean {
-  if (a === b) {
-    return true;
+  return deepEquals(a, b, createContext(defaultConfig));
+}
+
+/**
+ * Creates a deep equality function with the given options; the result can be passed as the `equals` option of an `ObjectMap`.
+ * Should be used together with a hash function created by `createHash` with the same options (or see `createComparator`).
+ */
+export function createEquals(options: Partial<EqualsOptions> = {}): (a: unknown, b: unknown) => boolean {
+  const config = compileOptions(options);
+  return (a, b) => deepEquals(a, b, createContext(config));
+}
+
+function compileOptions(options: Partial<EqualsOptions>): EqualsConfig {
+  const { handlers = [], identity = false, maxDepth = Infinity, ignorePrototypes = false, objectIs = false } = options;
+  return { handlers, identity, maxDepth, keys: createKeySelection(options), ignorePrototypes, objectIs };
+}
+
+const defaultConfig = compileOptions({});
+
+function createContext(config: EqualsConfig): EqualsContext {
+  // Fields are listed explicitly, as spreading the config is several times slower (on every comparison)
+  return {
+    handlers: config.handlers,
+    identity: config.identity,
+    maxDepth: config.maxDepth,
+    keys: config.keys,
+    ignorePrototypes: config.ignorePrototypes,
+    objectIs: config.objectIs,
+    aStack: [],
+    bStack: [],
+    keyPath: config.keys?.ignorePaths.length ? [] : undefined
+  };
+}
+
+function deepEquals(a: unknown, b: unknown, ctx: EqualsContext): boolean {
+  // Nested objects are not compared by reference, as a reference may be a back-reference on one side only
+  // (e.g. `a = { x: a }` vs. `b = { x: a }`), which `hash` tells apart by its position in the path.
+  if (a === b && (!isObject(a) || !ctx.aStack.length)) {
+    // With `Object.is` semantics, -0 and 0 are the only strictly equal values that are not equal
+    return !ctx.objectIs || a !== 0 || Object.is(a, b);
+  }
+
+  // Custom handlers - a and b are equal only if they're both handled by the same handler.
+  if (ctx.handlers.length) {
+    const handler = ctx.handlers.find(h => h.test(a) || h.test(b));
+    if (handler) {
+      return handler.test(a) && handler.test(b) && handler.equals(a, b);
+    }
   }
 
   if (!isObject(a) || !isObject(b)) {
@@ -16,10 +100,86 @@ export function equals(a: unknown, b: unknown): boolean {
   }
 
   // a and b are both objects.
-  if (a.constructor !== b.constructor) {
+
+  // Value objects - defer to their own equality
+  if (isValueObject(a)) {
+    return valueObjectEquals(a, b);
+  }
+  if (isValueObject(b)) {
+    return valueObjectEquals(b, a);
+  }
+
+  // Opaque objects - compared by reference
+  if (ctx.identity && (isOpaque(a) || isOpaque(b))) {
+    return a === b;
+  }
+
+  // Objects beyond the maximal depth - also compared by reference
+  if (ctx.aStack.length > ctx.maxDepth) {
+    return a === b;
+  }
+
+  if (ctx.ignorePrototypes ? kindOf(a) !== kindOf(b) : a.constructor !== b.constructor) {
     return false;
   }
 
+  // Cycles - if either a or b was already visited on the current path, they're equal
+  // iff both were visited at the same depth.
+  const { aStack, bStack } = ctx;
+  const aIndex = aStack.lastIndexOf(a);
+  const bIndex = bStack.lastIndexOf(b);
+  if (aIndex !== -1 || bIndex !== -1) {
+    return aIndex === bIndex;
+  }
+
+  aStack.push(a);
+  bStack.push(b);
+  const result = equalObjects(a, b, ctx);
+  aStack.pop();
+  bStack.pop();
+
+  return result;
+}
+
+/**
+ * @internal - compares values nested in their parents under `segment`, keeping track of the key path if needed.
+ */
+function deepEqualsAt(a: unknown, b: unknown, segment: PropertyKey, ctx: EqualsContext): boolean {
+  if (!ctx.keyPath) {
+    return deepEquals(a, b, ctx);
+  }
+
+  ctx.keyPath.push(typeof segment === 'number' ? String(segment) : segment);
+  const result = deepEquals(a, b, ctx);
+  ctx.keyPath.pop();
+
+  return result;
+}
+
+/**
+ * @internal - the built-in kind of an object, which determines how it's compared when prototypes are ignored.
+ * Binary data is told apart by its element type as well.
+ */
+function kindOf(value: object): unknown {
+  if (Array.isArray(value)) {
+    return Array;
+  }
+  for (const type of [Set, Map, Date, RegExp]) {
+    if (value instanceof type) {
+      return type;
+    }
+  }
+  if (isBinaryData(value)) {
+    return value.constructor;
+  }
+  return Object;
+}
+
+/**
+ * @internal - expects two distinct objects with the same constructor (or of the same kind, if prototypes are ignored),
+ * that are not on the current path.
+ */
+function equalObjects(a: object, b: object, ctx: EqualsContext): boolean {
   // Array
 
   // This is equivalent to `isArray(a) || isArray(b)`, since a and b have the same constuctor;
@@ -31,7 +191,7 @@ export function equals(a: unknown, b: unknown): boolean {
 
     const length = a.length; // === b.length
     for (let i = 0; i < length; i++) {
-      if (!equals(a[i], b[i])) {
+      if (!deepEqualsAt(a[i], b[i], i, ctx)) {
         return false;
       }
     }
@@ -45,13 +205,15 @@ export function equals(a: unknown, b: unknown): boolean {
       return false;
     }
 
-    // Two sets of equal size - they're equal iff a is contained in b.
-    for (const x of a.values()) {
-      if (!b.has(x)) {
-        return false;
-      }
+    // Two sets of equal size - they're equal iff each member of a matches a distinct member of b.
+    // Primitive members are matched by reference first (the common case), and only the rest are compared by value;
+    // as with nested objects in general, object members are not matched by reference (see `deepEquals`).
+    const unmatched = [...a].filter(x => isObject(x) || !b.has(x));
+    if (!unmatched.length) {
+      return true;
     }
-    return true;
+    const candidates = [...b].filter(x => isObject(x) || !a.has(x));
+    return matchAll(unmatched, candidates, (x, y) => deepEqualsAt(x, y, MEMBER_SEGMENT, ctx));
   }
 
   // Map
@@ -61,13 +223,24 @@ export function equals(a: unknown, b: unknown): boolean {
       return false;
     }
 
-    // Two maps of the same size - they're equal iff a is contained in b.
+    // Two maps of the same size - they're equal iff each entry of a matches a distinct entry of b.
+    // As with sets, primitive keys are matched by reference first.
+    const unmatched: [unknown, unknown][] = [];
     for (const [key, value] of a.entries()) {
-      if (!b.has(key) || !equals(b.get(key), value)) {
+      if (isObject(key) || !b.has(key)) {
+        unmatched.push([key, value]);
+      }
+      else if (!deepEqualsAt(value, b.get(key), MEMBER_SEGMENT, ctx)) {
         return false;
       }
     }
-    return true;
+    if (!unmatched.length) {
+      return true;
+    }
+    const candidates = [...b.entries()].filter(([key]) => isObject(key) || !a.has(key));
+    return matchAll(unmatched, candidates, ([k1, v1], [k2, v2]) =>
+      deepEqualsAt(k1, k2, MEMBER_SEGMENT, ctx) && deepEqualsAt(v1, v2, MEMBER_SEGMENT, ctx)
+    );
   }
 
   // Dates
@@ -80,20 +253,69 @@ export function equals(a: unknown, b: unknown): boolean {
     return a.source === b.source && a.flags === b.flags;
   }
 
+  // Binary data (typed arrays, DataViews, ArrayBuffers) - compared byte-wise.
+  // Since a and b have the same constructor, they also have the same element type.
+  if (isBinaryData(a) && isBinaryData(b)) {
+    return equalBytes(toBytes(a), toBytes(b));
+  }
+
   // Compare keys & values directly
-  const keys = Object.keys(a);
-  if (keys.length !== Object.keys(b).length) {
+  const keys = selectKeys(a, ctx);
+  if (keys.length !== selectKeys(b, ctx).length) {
     return false;
   }
 
   // Both key sets have the same size - they're equal iff a is contained in b.
   for (const key of keys) {
     if (
-      !Object.hasOwn(b, key) ||
-      !equals((b as any)[key], (a as any)[key])) {
+      !hasKey(b, key, ctx.keys) ||
+      !deepEqualsAt((a as any)[key], (b as any)[key], key, ctx)) {
       return false;
     }
   }
 
   return true;
-}
\ No newline at end of file
+}
+
+/**
+ * @internal - the keys of the object that are compared; by default, its own enumerable string keys.
+ */
+function selectKeys(value: object, ctx: EqualsContext): PropertyKey[] {
+  if (!ctx.keys) {
+    return Object.keys(value);
+  }
+
+  const keys: PropertyKey[] = selectStringKeys(value, ctx.keys, ctx.keyPath);
+  keys.push(...selectSymbolKeys(value, ctx.keys, ctx.keyPath));
+  return keys;
+}
+
+/**
+ * @returns `true` if each of `xs` matches a distinct item of `ys` (which has the same length), and `false` otherwise.
+ * Since `matches` is an equivalence relation, matching greedily is enough.
+ */
+function matchAll<T>(xs: T[], ys: T[], matches: (x: T, y: T) => boolean): boolean {
+  const used = new Array<boolean>(ys.length).fill(false);
+  for (const x of xs) {
+    const j = ys.findIndex((y, i) => !used[i] && matches(x, y));
+    if (j === -1) {
+      return false;
+    }
+    used[j] = true;
+  }
+  return true;
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  const length = a.length; // === b.length
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) {
+      return false;
+    }
+  }
+  return true;
+}
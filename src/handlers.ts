@@ -0,0 +1,32 @@
+import { equals } from './equals';
+import { hash } from './hash';
+
+/**
+ * Custom equality and hashing for a specific type of values, e.g. instances of a third-party class.
+ * Passed to `createEquals` and `createHash`, which check handlers (in order) before their built-in handling, at any depth.
+ * Values that are equal by `equals` must have the same `hash`.
+ */
+export interface TypeHandler<T = any> {
+  /** Returns `true` for values handled by this handler. */
+  test: (value: unknown) => boolean;
+  /** Called with two values that both pass `test`. */
+  equals: (a: T, b: T) => boolean;
+  /** Called with a value that passes `test`. */
+  hash: (value: T) => number;
+}
+
+/**
+ * Creates a handler for instances of the given class, which compares and hashes them by the result of `key`.
+ * For example, `typeHandler(Decimal, d => d.toString())` makes decimals equal when their `toString()` matches.
+ */
+export function typeHandler<T>(
+  type: abstract new (...args: any[]) => T,
+  key: (value: T) => unknown
+): TypeHandler<T> {
+  return {
+    test: value => value instanceof type,
+    equals: (a, b) => equals(key(a), key(b)),
+    hash: value => hash(key(value))
+  };
+}
+
@@ -1,74 +1,336 @@
+import { isBinaryData, toBytes } from './binary';
+import type { CompareOptions } from './comparator';
+import type { TypeHandler } from './handlers';
+import { hashBytes, hashString } from './cyrb53';
+import { hashV2 } from './hashV2';
+import { identityHash, isOpaque } from './identity';
+import { createKeySelection, KeySelection, MEMBER_SEGMENT, selectStringKeys, selectSymbolKeys } from './keys';
+import { isValueObject, valueObjectHash } from './protocol';
 
 type Hash = number;
 
+/**
+ * Options for `createHash`.
+ * @see CompareOptions
+ */
+export interface HashOptions extends CompareOptions {
+  /**
+   * A 32-bit integer seed, mixed into the hashes of all primitive values; defaults to `0`.
+   * Using a secret (e.g. random) seed makes it hard to craft keys with colliding hashes, which protects maps
+   * whose keys are user input against hash-flooding.
+   */
+  seed: number;
+}
+
+/**
+ * @internal - options, compiled once per hash function.
+ */
+interface HashConfig {
+  handlers: readonly TypeHandler[];
+  identity: boolean;
+  maxDepth: number;
+  keys: KeySelection | undefined;
+  ignorePrototypes: boolean;
+  objectIs: boolean;
+  seed: number;
+}
+
+/**
+ * @internal - state threaded through a single hash computation.
+ */
+interface HashContext extends HashConfig {
+  /** The objects on the path from the root value, used to detect cycles */
+  path: object[];
+  /** The keys on the path from the root value; only tracked if there are ignored paths */
+  keyPath: PropertyKey[] | undefined;
+}
+
+/**
+ * Deep hash function; values that are equal by `equals` have the same hash.
+ * Handles cyclic structures - a reference back to an object on the current path is hashed by its depth in the path.
+ *
+ * Its output may change between releases; for hashes that are persisted, use the versioned `hash.v2`.
+ */
 export function hash(value: unknown): Hash {
+  return hashValue(value, createContext(defaultConfig));
+}
+
+/**
+ * Version 2 of the hash algorithm - frozen, type-tagged, and suitable for persistence.
+ * `hash.v2.hex` returns a fixed-width hex digest.
+ * @see hashV2
+ */
+hash.v2 = hashV2;
+
+/**
+ * Creates a deep hash function with the given options; the result can be passed as the `hash` option of an `ObjectMap`.
+ * Should be used together with an equality function created by `createEquals` with the same options.
+ */
+export function createHash(options: Partial<HashOptions> = {}): (value: unknown) => Hash {
+  const config = compileOptions(options);
+  return value => hashValue(value, createContext(config));
+}
+
+function compileOptions(options: Partial<HashOptions>): HashConfig {
+  const { handlers = [], identity = false, maxDepth = Infinity, ignorePrototypes = false, objectIs = false, seed = 0 } = options;
+  return { handlers, identity, maxDepth, keys: createKeySelection(options), ignorePrototypes, objectIs, seed };
+}
+
+const defaultConfig = compileOptions({});
+
+function createContext(config: HashConfig, path: object[] = []): HashContext {
+  // Fields are listed explicitly, as spreading the config is several times slower (on every hash)
+  return {
+    handlers: config.handlers,
+    identity: config.identity,
+    maxDepth: config.maxDepth,
+    keys: config.keys,
+    ignorePrototypes: config.ignorePrototypes,
+    objectIs: config.objectIs,
+    seed: config.seed,
+    path,
+    keyPath: config.keys?.ignorePaths.length ? [] : undefined
+  };
+}
+
+/**
+ * Creates a deep hash function with the given seed; `createSeededHash(seed)` is equivalent to `createHash({ seed })`.
+ * Can be used with the default `equals` function.
+ */
+export function createSeededHash(seed: number): (value: unknown) => Hash {
+  return createHash({ seed });
+}
+
+/**
+ * @returns a random 32-bit seed, for use with `createSeededHash`; uses `crypto.getRandomValues` where available.
+ */
+export function randomSeed(): number {
+  if (typeof globalThis.crypto?.getRandomValues === 'function') {
+    return globalThis.crypto.getRandomValues(new Uint32Array(1))[0];
+  }
+  return Math.floor(Math.random() * 4294967296);
+}
+
+/**
+ * Computes a hash incrementally, from values fed one at a time - e.g. values that arrive in pieces,
+ * or the fields of a key in a custom `hash` function, without allocating an intermediate array.
+ * The digest is identical to the hash of an array of the fed values, i.e.
+ * `new Hasher().update(a).update(b).digest() === hash([a, b])`.
+ */
+export class Hasher {
+  protected h: Hash;
+  protected count: number;
+  protected ctx: HashContext;
+
+  /**
+   * @param options hash options; the digest is identical to the hash computed by `createHash` with the same options.
+   */
+  constructor(options: Partial<HashOptions> = {}) {
+    this.h = 0;
+    this.count = 0;
+    // The hasher stands in for the array on the path, so that cycles are hashed at the same positions.
+    this.ctx = createContext(compileOptions(options), [this]);
+  }
+
+  /**
+   * Feeds the next value; nested values are hashed deeply.
+   * @returns this
+   */
+  update(value: unknown): this {
+    this.h = 92821 * this.h + hashValueAt(value, this.count++, this.ctx);
+    this.h |= 0; // Convert to 32bit integer
+    return this;
+  }
+
+  /**
+   * @returns the hash of the values fed so far.
+   */
+  digest(): Hash {
+    return this.h;
+  }
+}
+
+function hashValue(value: unknown, ctx: HashContext): Hash {
+  if (ctx.handlers.length) {
+    const handler = ctx.handlers.find(h => h.test(value));
+    if (handler) {
+      return handler.hash(value);
+    }
+  }
+
   switch (typeof value) {
     case 'string':
-      return hashString(value);
+      return hashString(value, ctx.seed);
     case 'number':
+      // With `Object.is` semantics, -0 is distinct from 0 (whose string representations are the same)
+      return hashString(ctx.objectIs && Object.is(value, -0) ? '-0' : String(value), ctx.seed);
     case 'bigint':
     case 'boolean':
-    case 'symbol':
     case 'undefined':
+      return hashString(String(value), ctx.seed);
+    case 'symbol':
     case 'function':
-      return hashString(String(value));
+      return hashSymbol(value, ctx);
     case 'object':
       if (value === null) {
-        return hashString('null');
+        return hashString('null', ctx.seed);
       }
-      return hashObject(value as Record<string, unknown>);
+      return hashObject(value as Record<string, unknown>, ctx);
   }
 }
 
 /**
- * See 
- * https://stackoverflow.com/questions/6122571/simple-non-secure-hash-function-for-javascript
- * https://stackoverflow.com/questions/7616461/generate-a-hash-from-string-in-javascript
- * https://github.com/bryc/code/blob/master/jshash/experimental/cyrb53.js
+ * @internal - symbols (and functions) have no contents; they're hashed by identity or by their string representation.
+ */
+function hashSymbol(value: symbol | Function, ctx: HashContext): Hash {
+  return ctx.identity
+    ? identityHash(value, id => hashString(id, ctx.seed))
+    : hashString(String(value), ctx.seed);
+}
+
+/**
+ * Expects a non-null object
  */
-function hashString(value: string): Hash {
-  let h1 = 0xdeadbeef ^ 0;
-  let h2 = 0x41c6ce57 ^ 0;
-  for (let i = 0, ch; i < value.length; i++) {
-    ch = value.charCodeAt(i);
-    h1 = Math.imul(h1 ^ ch, 2654435761);
-    h2 = Math.imul(h2 ^ ch, 1597334677);
+function hashObject(value: Record<string, unknown>, ctx: HashContext): Hash {
+  // Value objects - defer to their own hash code
+  if (isValueObject(value)) {
+    return valueObjectHash(value);
+  }
+
+  // Opaque objects - hash by identity
+  if (ctx.identity && isOpaque(value)) {
+    return identityHash(value, id => hashString(id, ctx.seed));
+  }
+
+  // Objects beyond the maximal depth - also hash by identity
+  if (ctx.path.length > ctx.maxDepth) {
+    return identityHash(value, id => hashString(id, ctx.seed));
   }
 
-  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
-  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
-  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
-  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  // Back-reference to an object on the current path - hash by its position.
+  const { path } = ctx;
+  const index = path.lastIndexOf(value);
+  if (index !== -1) {
+    return hashString(`[Circular *${index}]`, ctx.seed);
+  }
+
+  path.push(value);
+  const result = hashContents(value, ctx);
+  path.pop();
 
-  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+  return result;
 }
 
 /**
- * Expects a non-null object
+ * @internal - expects a non-null object, that is not on the current path.
+ * The object's parts are hashed directly (rather than as values), so that type handlers only see the object's contents.
  */
-function hashObject(value: Record<string, unknown>): Hash {
+function hashContents(value: Record<string, unknown>, ctx: HashContext): Hash {
   if (Array.isArray(value)) {
-    return hashArray(value);
+    return hashArray(value, ctx);
+  }
+
+  let h = 0;
+  // The constructor's name - unless prototypes are ignored, in which case only binary data is told apart by its type
+  // (other built-in kinds are hashed differently anyway).
+  if (ctx.ignorePrototypes ? isBinaryData(value) : value.constructor !== Object) {
+    h = combine(h, hashString(value.constructor.name, ctx.seed));
   }
 
-  const data: unknown[] = [];
-  if (value.constructor !== Object) {
-    data.push(value.constructor.name);
+  if (value instanceof Date) {
+    // Dates - hashed by their time value
+    h = combine(h, hashString(String(value.getTime()), ctx.seed));
   }
-  for (const key of Object.keys(value).sort()) {
-    data.push(hash(key), hash(value[key]));
+  else if (value instanceof RegExp) {
+    // Regex - hashed by source and flags
+    h = combine(h, hashString(value.source, ctx.seed));
+    h = combine(h, hashString(value.flags, ctx.seed));
   }
+  else if (value instanceof Set) {
+    h = combine(h, hashUnordered(value.values(), x => hashValueAt(x, MEMBER_SEGMENT, ctx)));
+  }
+  else if (value instanceof Map) {
+    h = combine(h, hashUnordered(value.entries(), ([k, v]) =>
+      Math.imul(hashValueAt(k, MEMBER_SEGMENT, ctx), 92821) + hashValueAt(v, MEMBER_SEGMENT, ctx)
+    ));
+  }
+  else if (isBinaryData(value)) {
+    // Binary data - hashed by its raw bytes
+    h = combine(h, hashBytes(toBytes(value), ctx.seed));
+  }
+  else {
+    for (const key of selectStringKeys(value, ctx.keys, ctx.keyPath).sort()) {
+      h = combine(h, hashString(key, ctx.seed));
+      h = combine(h, hashValueAt(value[key], key, ctx));
+    }
 
-  return hashArray(data);
+    // Symbol keys have no natural order - combined in an order-independent way
+    const symbols = selectSymbolKeys(value, ctx.keys, ctx.keyPath);
+    if (symbols.length) {
+      h = combine(h, hashUnordered(symbols, key =>
+        Math.imul(hashSymbol(key as symbol, ctx), 92821) + hashValueAt(value[key as any], key, ctx)
+      ));
+    }
+  }
+
+  return h;
 }
 
-function hashArray(value: unknown[]): Hash {
+/**
+ * @internal - appends a hash to the hash of a sequence.
+ */
+function combine(h: Hash, next: Hash): Hash {
+  return (92821 * h + next) | 0;
+}
+
+/**
+ * @internal - hashes values nested in their parents under `segment`, keeping track of the key path if needed.
+ */
+function hashValueAt(value: unknown, segment: PropertyKey, ctx: HashContext): Hash {
+  if (!ctx.keyPath) {
+    return hashValue(value, ctx);
+  }
+
+  ctx.keyPath.push(typeof segment === 'number' ? String(segment) : segment);
+  const result = hashValue(value, ctx);
+  ctx.keyPath.pop();
+
+  return result;
+}
+
+function hashArray(value: unknown[], ctx: HashContext): Hash {
   let h = 0;
   for (let i = 0; i < value.length; i++) {
-    h = 92821 * h + hash(value[i]);
+    h = 92821 * h + hashValueAt(value[i], i, ctx);
     h |= 0; // Convert to 32bit integer
   }
 
   return h;
 }
 
+/**
+ * Combines the hashes of the given items in an order-independent way, for hashing `Set`s and `Map`s.
+ */
+function hashUnordered<T>(items: Iterable<T>, hashItem: (item: T) => Hash): Hash {
+  let h = 0;
+  for (const item of items) {
+    // Each hash is scrambled before summing (otherwise, e.g., the entries of {a: 1, b: 2} and {a: 2, b: 1} would cancel out),
+    // and truncated to 32 bits, so that the sum is exact (and hence commutative).
+    h = (h + fmix32(hashItem(item))) | 0;
+  }
+
+  return h;
+}
+
+/**
+ * MurmurHash3's 32-bit finalizer; see https://github.com/aappleby/smhasher/blob/master/src/MurmurHash3.cpp
+ */
+function fmix32(h: Hash): Hash {
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+
+  return h | 0;
+}
@@ -0,0 +1,200 @@
+import { isBinaryData, toBytes } from './binary';
+import { isValueObject, valueObjectHash } from './protocol';
+
+/**
+ * Version 2 of the hash algorithm; also available as `hash.v2`.
+ *
+ * Unlike `hash`, whose output may change between releases, this algorithm is frozen - its outputs are
+ * guaranteed to stay the same across releases (and processes), so they can be persisted, e.g. as cache keys in files.
+ * Any change to the algorithm will be released as a new version.
+ *
+ * Values are hashed by their canonical encoding, in which every value is prefixed by a tag of its type;
+ * hence e.g. `1`, `'1'` and `1n` have different hashes. The encoding is fed into a 64-bit variant of cyrb53:
+ * - strings: `s<length>:<chars>`
+ * - numbers: `n<String(number)>;`, with `-0` encoded as `0`
+ * - bigints: `i<String(bigint)>;`
+ * - booleans: `t` or `f`; `undefined`: `u`; `null`: `z`
+ * - arrays: `a<length>[<items>]`
+ * - plain objects: `o<count>{<key><value>...}`, with keys (as strings) in sorted order
+ * - other class instances: `c<constructor name>` followed by the encoding of their own keys, as for plain objects
+ * - dates: `d<time>` (time as a number); regexes: `r<source><flags>` (both as strings)
+ * - sets: `S<size>{<member digests>}` and maps: `M<size>{<entry digests>}`, where each member/entry is encoded
+ *   separately, and its 16-character hex digest is encoded in sorted order
+ * - typed arrays, `DataView`s and `ArrayBuffer`s: `x<constructor name><byteLength>:<bytes>`
+ * - value objects (see `ValueObject`): `v<hash code>` (hash code as a number)
+ * - references back to an object on the current path: `^<depth>;`
+ *
+ * Symbols and functions have no stable representation, and throw a `TypeError`.
+ * As class instances are tagged by their constructor's name, their digests are stable only as long as the name is -
+ * minifiers may rename classes, unless configured to keep class names (e.g. esbuild's `keepNames`, terser's `keep_classnames`).
+ *
+ * @returns a 53-bit integer hash.
+ */
+export function hashV2(value: unknown): number {
+  const state = new HashV2State();
+  encode(value, state, []);
+  const [h1, h2] = state.final();
+  return 4294967296 * (2097151 & h2) + h1;
+}
+
+/**
+ * Same as `hashV2`, but returns the full 64-bit hash as a fixed-width, 16-character hex digest, suitable for storage.
+ * Also available as `hash.v2.hex`.
+ */
+export function hashV2Hex(value: unknown): string {
+  const state = new HashV2State();
+  encode(value, state, []);
+  return state.hex();
+}
+
+hashV2.hex = hashV2Hex;
+
+/**
+ * @internal - the 64-bit hash state; cyrb53's mixing, without truncating the result to 53 bits.
+ */
+class HashV2State {
+  protected h1 = 0xdeadbeef;
+  protected h2 = 0x41c6ce57;
+
+  write(chars: string): void {
+    for (let i = 0; i < chars.length; i++) {
+      this.writeCode(chars.charCodeAt(i));
+    }
+  }
+
+  writeCode(code: number): void {
+    this.h1 = Math.imul(this.h1 ^ code, 2654435761);
+    this.h2 = Math.imul(this.h2 ^ code, 1597334677);
+  }
+
+  /** @returns the final [low, high] 32-bit halves of the hash, as unsigned integers */
+  final(): [number, number] {
+    let h1 = Math.imul(this.h1 ^ (this.h1 >>> 16), 2246822507);
+    h1 ^= Math.imul(this.h2 ^ (this.h2 >>> 13), 3266489909);
+    let h2 = Math.imul(this.h2 ^ (this.h2 >>> 16), 2246822507);
+    h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+    return [h1 >>> 0, h2 >>> 0];
+  }
+
+  hex(): string {
+    const [h1, h2] = this.final();
+    return h2.toString(16).padStart(8, '0') + h1.toString(16).padStart(8, '0');
+  }
+}
+
+function encode(value: unknown, state: HashV2State, path: object[]): void {
+  switch (typeof value) {
+    case 'string':
+      return encodeString(value, state);
+    case 'number':
+      return state.write(`n${Object.is(value, -0) ? 0 : value};`);
+    case 'bigint':
+      return state.write(`i${value};`);
+    case 'boolean':
+      return state.write(value ? 't' : 'f');
+    case 'undefined':
+      return state.write('u');
+    case 'symbol':
+    case 'function':
+      throw new TypeError(`hash.v2 cannot hash a ${typeof value}, as it has no stable representation`);
+    case 'object':
+      if (value === null) {
+        return state.write('z');
+      }
+      return encodeObject(value as Record<string, unknown>, state, path);
+  }
+}
+
+function encodeString(value: string, state: HashV2State): void {
+  state.write(`s${value.length}:`);
+  state.write(value);
+}
+
+function encodeObject(value: Record<string, unknown>, state: HashV2State, path: object[]): void {
+  if (isValueObject(value)) {
+    state.write('v');
+    return encode(valueObjectHash(value), state, path);
+  }
+
+  const index = path.lastIndexOf(value);
+  if (index !== -1) {
+    return state.write(`^${index};`);
+  }
+
+  path.push(value);
+  encodeContents(value, state, path);
+  path.pop();
+}
+
+function encodeContents(value: Record<string, unknown>, state: HashV2State, path: object[]): void {
+  if (Array.isArray(value)) {
+    state.write(`a${value.length}[`);
+    for (const item of value) {
+      encode(item, state, path);
+    }
+    return state.write(']');
+  }
+
+  if (value instanceof Date) {
+    state.write('d');
+    return encode(value.getTime(), state, path);
+  }
+
+  if (value instanceof RegExp) {
+    state.write('r');
+    encodeString(value.source, state);
+    return encodeString(value.flags, state);
+  }
+
+  if (value instanceof Set) {
+    state.write(`S${value.size}{`);
+    encodeDigests([...value].map(member => digest(s => encode(member, s, path))), state);
+    return state.write('}');
+  }
+
+  if (value instanceof Map) {
+    state.write(`M${value.size}{`);
+    encodeDigests([...value].map(([k, v]) => digest(s => {
+      encode(k, s, path);
+      encode(v, s, path);
+    })), state);
+    return state.write('}');
+  }
+
+  if (isBinaryData(value)) {
+    const bytes = toBytes(value);
+    state.write('x');
+    encodeString(value.constructor.name, state);
+    state.write(`${bytes.length}:`);
+    for (let i = 0; i < bytes.length; i++) {
+      state.writeCode(bytes[i]);
+    }
+    return;
+  }
+
+  if (value.constructor !== Object) {
+    state.write('c');
+    encodeString(value.constructor?.name ?? '', state);
+  }
+
+  const keys = Object.keys(value).sort();
+  state.write(`o${keys.length}{`);
+  for (const key of keys) {
+    encodeString(key, state);
+    encode(value[key], state, path);
+  }
+  state.write('}');
+}
+
+function digest(write: (state: HashV2State) => void): string {
+  const state = new HashV2State();
+  write(state);
+  return state.hex();
+}
+
+function encodeDigests(digests: string[], state: HashV2State): void {
+  for (const d of digests.sort()) {
+    state.write(d);
+  }
+}
@@ -0,0 +1,73 @@
+import { isBinaryData } from './binary';
+
+/**
+ * @internal - ids of values hashed by identity; held weakly, so that they don't keep the values alive.
+ */
+const ids = new WeakMap<WeakKey, number>();
+let nextId = 0;
+
+/**
+ * @internal - `true` if symbols can be used as `WeakMap` keys (ES2023).
+ */
+const symbolsAsWeakKeys = (() => {
+  try {
+    new WeakMap().set(Symbol() as WeakKey, 0);
+    return true;
+  }
+  catch {
+    return false;
+  }
+})();
+
+/**
+ * @internal - a stable, per-identity hash for the given object, function or symbol.
+ * @param hashId hashes the id assigned to the value
+ */
+export function identityHash(value: object | symbol, hashId: (id: string) => number): number {
+  if (typeof value === 'symbol' && (Symbol.keyFor(value) !== undefined || !symbolsAsWeakKeys)) {
+    // Registered symbols (`Symbol.for()`) are the same for the same key, and can't be held weakly.
+    // Without support for symbols as weak keys, fall back to the symbol's description.
+    return hashId(String(value));
+  }
+
+  let id = ids.get(value as WeakKey);
+  if (id === undefined) {
+    id = nextId++;
+    ids.set(value as WeakKey, id);
+  }
+  return hashId(`[Identity ${id}]`);
+}
+
+/**
+ * @internal - `true` if the object can't be meaningfully compared by its contents: functions, weak collections,
+ * promises and class instances with no own keys; and `false` otherwise.
+ */
+export function isOpaque(value: object): boolean {
+  if (
+    typeof value === 'function'
+    || value instanceof WeakMap
+    || value instanceof WeakSet
+    || value instanceof Promise
+    || (typeof WeakRef !== 'undefined' && value instanceof WeakRef)
+  ) {
+    return true;
+  }
+
+  const proto = Object.getPrototypeOf(value);
+  if (proto === null || proto === Object.prototype || Array.isArray(value)) {
+    return false;
+  }
+
+  // Class instances - built-ins that are compared by their contents aren't opaque
+  if (
+    value instanceof Date
+    || value instanceof RegExp
+    || value instanceof Set
+    || value instanceof Map
+    || isBinaryData(value)
+  ) {
+    return false;
+  }
+
+  return Object.keys(value).length === 0;
+}
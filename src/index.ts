@@ -3,4 +3,13 @@ export * from './ObjectSet';
 export * from './ImmutableMap';
 export * from './ImmutableSet';
 export * from './equals';
-export * from './hash';
\ No newline at end of file
+export * from './hash';
+export * from './hashV2';
+export * from './comparator';
+export * from './protocol';
+export * from './handlers';
+export * from './memoize';
+export * from './diff';
+export * from './approximate';
+export * from './shape';
+export * from './ownership';
\ No newline at end of file
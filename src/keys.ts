@@ -0,0 +1,94 @@
+import type { CompareOptions } from './comparator';
+
+const propertyIsEnumerable = Object.prototype.propertyIsEnumerable;
+const hasOwnProperty = Object.prototype.hasOwnProperty;
+
+/**
+ * @internal - which keys of objects are compared, compiled from `CompareOptions`.
+ */
+export interface KeySelection {
+  ignoreKeys: ReadonlySet<PropertyKey>;
+  /** The segments of each ignored path */
+  ignorePaths: readonly string[][];
+  includeSymbols: boolean;
+  includeNonEnumerable: boolean;
+  /** If `true`, keys whose value is `undefined` are not selected */
+  omitUndefined: boolean;
+}
+
+/**
+ * @internal - a path segment for members of sets and maps, which is matched only by `*`.
+ */
+export const MEMBER_SEGMENT = Symbol('member');
+
+/**
+ * @internal - returns `undefined` if all (enumerable, string) keys are selected, which is the common case.
+ */
+export function createKeySelection(options: Partial<CompareOptions>): KeySelection | undefined {
+  const {
+    ignoreKeys = [],
+    ignorePaths = [],
+    includeSymbols = false,
+    includeNonEnumerable = false,
+    undefinedAsAbsent = false
+  } = options;
+  if (!ignoreKeys.length && !ignorePaths.length && !includeSymbols && !includeNonEnumerable && !undefinedAsAbsent) {
+    return undefined;
+  }
+
+  return {
+    ignoreKeys: new Set(ignoreKeys),
+    ignorePaths: ignorePaths.map(path => path.split('.')),
+    includeSymbols,
+    includeNonEnumerable,
+    omitUndefined: undefinedAsAbsent
+  };
+}
+
+/**
+ * @internal - the selected own string keys of the object (only enumerable ones, unless non-enumerable keys are included),
+ * in their natural order.
+ * @param keyPath the keys on the path from the root value to the object; only required if there are ignored paths.
+ */
+export function selectStringKeys(value: object, selection: KeySelection | undefined, keyPath?: readonly PropertyKey[]): string[] {
+  const keys = selection?.includeNonEnumerable ? Object.getOwnPropertyNames(value) : Object.keys(value);
+  return selection
+    ? keys.filter(key => !isIgnored(value, key, selection, keyPath))
+    : keys;
+}
+
+/**
+ * @internal - the selected own symbol keys of the object (only enumerable ones, unless non-enumerable keys are included);
+ * empty unless symbols are included.
+ */
+export function selectSymbolKeys(value: object, selection: KeySelection | undefined, keyPath?: readonly PropertyKey[]): symbol[] {
+  if (!selection?.includeSymbols) {
+    return [];
+  }
+  return Object.getOwnPropertySymbols(value)
+    .filter(key => hasKey(value, key, selection) && !isIgnored(value, key, selection, keyPath));
+}
+
+/**
+ * @internal - `true` if `key` is an own enumerable key of the object (or just an own key, if non-enumerable keys are included).
+ */
+export function hasKey(value: object, key: PropertyKey, selection?: KeySelection): boolean {
+  return selection?.includeNonEnumerable
+    ? hasOwnProperty.call(value, key)
+    : propertyIsEnumerable.call(value, key);
+}
+
+function isIgnored(value: object, key: PropertyKey, selection: KeySelection, keyPath: readonly PropertyKey[] = []): boolean {
+  if (selection.ignoreKeys.has(key)) {
+    return true;
+  }
+  if (selection.omitUndefined && (value as any)[key] === undefined) {
+    return true;
+  }
+
+  const depth = keyPath.length;
+  return selection.ignorePaths.some(path =>
+    path.length === depth + 1
+    && path.every((segment, i) => segment === '*' || segment === (i < depth ? keyPath[i] : key))
+  );
+}
@@ -0,0 +1,75 @@
+import { isDeepFrozen } from './ownership';
+
+/**
+ * Which keys to memoize hashes and equality results for:
+ * - `'none'` - don't memoize.
+ * - `'frozen'` - memoize only deeply frozen keys - frozen along with everything reachable from them (e.g. with `deepFreeze`).
+ * - `'all'` - memoize all object keys; declares that keys are never mutated after they're first hashed.
+ */
+export type KeyCachePolicy = 'none' | 'frozen' | 'all';
+
+function isCacheable(value: unknown, policy: KeyCachePolicy): value is object {
+  if (policy === 'none' || !value || (typeof value !== 'object' && typeof value !== 'function')) {
+    return false;
+  }
+  return policy === 'all' || isDeepFrozen(value);
+}
+
+/**
+ * Wraps a hash function, memoizing the hashes of cacheable objects by identity.
+ * The cache is a `WeakMap`, so it does not keep the objects alive.
+ */
+export function memoizeHash(
+  hash: (value: unknown) => number,
+  policy: KeyCachePolicy
+): (value: unknown) => number {
+  if (policy === 'none') {
+    return hash;
+  }
+
+  const cache = new WeakMap<object, number>();
+  return value => {
+    if (!isCacheable(value, policy)) {
+      return hash(value);
+    }
+
+    let h = cache.get(value);
+    if (h === undefined) {
+      h = hash(value);
+      cache.set(value, h);
+    }
+    return h;
+  };
+}
+
+/**
+ * Wraps an equality function, memoizing its results for pairs of cacheable objects by identity.
+ * The cache is a `WeakMap` (of `WeakMap`s), so it does not keep the objects alive.
+ */
+export function memoizeEquals(
+  equals: (a: unknown, b: unknown) => boolean,
+  policy: KeyCachePolicy
+): (a: unknown, b: unknown) => boolean {
+  if (policy === 'none') {
+    return equals;
+  }
+
+  const cache = new WeakMap<object, WeakMap<object, boolean>>();
+  return (a, b) => {
+    if (a === b || !isCacheable(a, policy) || !isCacheable(b, policy)) {
+      return equals(a, b);
+    }
+
+    const cached = cache.get(a)?.get(b) ?? cache.get(b)?.get(a);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const result = equals(a, b);
+    if (!cache.has(a)) {
+      cache.set(a, new WeakMap());
+    }
+    cache.get(a)!.set(b, result);
+    return result;
+  };
+}
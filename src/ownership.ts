@@ -0,0 +1,211 @@
+import { isBinaryData } from './binary';
+import { isOpaque } from './identity';
+import { isValueObject } from './protocol';
+
+/**
+ * How a map takes ownership of the keys inserted into it:
+ * - `'reference'` - store keys as they are; mutating a key after inserting it makes its entry unreachable.
+ * - `'freeze'` - deep-freeze keys (in place) on insert, with `deepFreeze`.
+ * - `'clone'` - store a structural copy of each key, made with `deepClone`.
+ */
+export type KeyPolicy = 'reference' | 'freeze' | 'clone';
+
+/**
+ * Freezes the value and everything reachable from it (own property values, array items, and the keys, values and
+ * members of `Map`s and `Set`s), in place.
+ * Value objects and opaque objects (e.g. functions) are left as they are, as is binary data, which can't be frozen.
+ * Note that `Map`s, `Set`s and `Date`s remain mutable through their methods (e.g. `map.set()` or `date.setTime()`).
+ * @returns the value.
+ */
+export function deepFreeze<T>(value: T): T {
+  const visited = new Set<object>();
+  freezeValue(value, visited);
+  visited.forEach(object => deeplyFrozen.add(object));
+  return value;
+}
+
+/**
+ * @internal - objects known to be deeply frozen; as frozen objects can't be unfrozen, only positive results are kept.
+ */
+const deeplyFrozen = new WeakSet<object>();
+
+/**
+ * @internal - `true` if the value is frozen, along with everything reachable from it that `deepFreeze` would freeze.
+ * Results are cached, so each object is checked once.
+ */
+export function isDeepFrozen(value: unknown): boolean {
+  if (!value || (typeof value !== 'object' && typeof value !== 'function')) {
+    return true;
+  }
+  if (!Object.isFrozen(value)) {
+    return false;
+  }
+
+  const visited = new Set<object>();
+  if (!checkFrozen(value, visited)) {
+    return false;
+  }
+  visited.forEach(object => deeplyFrozen.add(object));
+  return true;
+}
+
+function checkFrozen(value: unknown, visited: Set<object>): boolean {
+  if (!value || typeof value !== 'object' || visited.has(value) || deeplyFrozen.has(value)) {
+    return true;
+  }
+  visited.add(value);
+
+  if (isValueObject(value) || isOpaque(value) || isBinaryData(value)) {
+    return true;
+  }
+  if (!Object.isFrozen(value)) {
+    return false;
+  }
+
+  if (value instanceof Map) {
+    for (const [k, v] of value) {
+      if (!checkFrozen(k, visited) || !checkFrozen(v, visited)) {
+        return false;
+      }
+    }
+  }
+  else if (value instanceof Set) {
+    for (const member of value) {
+      if (!checkFrozen(member, visited)) {
+        return false;
+      }
+    }
+  }
+
+  for (const key of Reflect.ownKeys(value)) {
+    const descriptor = Object.getOwnPropertyDescriptor(value, key);
+    if (descriptor && 'value' in descriptor && !checkFrozen(descriptor.value, visited)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function freezeValue(value: unknown, visited: Set<object>): void {
+  if (!value || typeof value !== 'object' || visited.has(value)) {
+    return;
+  }
+  visited.add(value);
+
+  if (isValueObject(value) || isOpaque(value) || isBinaryData(value)) {
+    return;
+  }
+
+  if (value instanceof Map) {
+    value.forEach((v, k) => {
+      freezeValue(k, visited);
+      freezeValue(v, visited);
+    });
+  }
+  else if (value instanceof Set) {
+    value.forEach(member => freezeValue(member, visited));
+  }
+
+  for (const key of Reflect.ownKeys(value)) {
+    const descriptor = Object.getOwnPropertyDescriptor(value, key);
+    if (descriptor && 'value' in descriptor) {
+      freezeValue(descriptor.value, visited);
+    }
+  }
+  Object.freeze(value);
+}
+
+/**
+ * Creates a structural copy of the value, sharing no mutable state. The copy is equal to the value by `equals` with any
+ * options but `maxDepth` - objects nested beyond it are compared by reference, so their copies are not equal to them.
+ * - Arrays and objects are copied with the same prototype and own properties (including symbol and non-enumerable ones).
+ * - `Date`s, `RegExp`s, `Map`s and `Set`s are copied by their contents - the time value, the source and flags,
+ *   and the (copied) entries and members.
+ * - Binary data is copied by its bytes.
+ * - Value objects and opaque objects (e.g. functions) are compared by their own equality or by identity, and aren't copied.
+ *
+ * Cycles and shared references are preserved.
+ */
+export function deepClone<T>(value: T): T {
+  return cloneValue(value, new Map());
+}
+
+function cloneValue(value: any, clones: Map<object, object>): any {
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const existing = clones.get(value);
+  if (existing) {
+    return existing;
+  }
+
+  if (isValueObject(value) || isOpaque(value)) {
+    return value;
+  }
+
+  if (isBinaryData(value)) {
+    const copy = ArrayBuffer.isView(value)
+      ? cloneView(value)
+      : value.slice(0);
+    clones.set(value, copy);
+    return copy;
+  }
+
+  if (value instanceof Date) {
+    return withPrototype(new Date(value.getTime()), value, clones);
+  }
+
+  if (value instanceof RegExp) {
+    return withPrototype(new RegExp(value.source, value.flags), value, clones);
+  }
+
+  if (value instanceof Map) {
+    const copy = withPrototype(new Map(), value, clones);
+    value.forEach((v, k) => copy.set(cloneValue(k, clones), cloneValue(v, clones)));
+    return copy;
+  }
+
+  if (value instanceof Set) {
+    const copy = withPrototype(new Set(), value, clones);
+    value.forEach(member => copy.add(cloneValue(member, clones)));
+    return copy;
+  }
+
+  const isArray = Array.isArray(value);
+  const copy = withPrototype(isArray ? new Array(value.length) : {}, value, clones);
+  for (const key of Reflect.ownKeys(value)) {
+    if (isArray && key === 'length') {
+      continue;
+    }
+
+    const descriptor = Object.getOwnPropertyDescriptor(value, key)!;
+    if ('value' in descriptor) {
+      // The copy is mutable, even if the original was frozen
+      descriptor.value = cloneValue(descriptor.value, clones);
+      descriptor.writable = true;
+    }
+    descriptor.configurable = true;
+    Object.defineProperty(copy, key, descriptor);
+  }
+  return copy;
+}
+
+/**
+ * Gives the copy the prototype of the original (e.g. of a subclass), and registers it as the original's copy.
+ */
+function withPrototype<T extends object>(copy: T, original: object, clones: Map<object, object>): T {
+  const proto = Object.getPrototypeOf(original);
+  if (Object.getPrototypeOf(copy) !== proto) {
+    Object.setPrototypeOf(copy, proto);
+  }
+  clones.set(original, copy);
+  return copy;
+}
+
+function cloneView(view: ArrayBufferView): ArrayBufferView {
+  const buffer = view.buffer.slice(view.byteOffset, view.byteOffset + view.byteLength);
+  return view instanceof DataView
+    ? new DataView(buffer)
+    : new (view.constructor as new (buffer: ArrayBufferLike) => ArrayBufferView)(buffer);
+}
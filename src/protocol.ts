@@ -0,0 +1,66 @@
+/**
+ * Well-known symbol for defining a custom hash code; also available as `ObjectMap.hash`.
+ * @see ValueObject
+ */
+export const hashSymbol: unique symbol = Symbol.for('objectmap.js/hash');
+
+/**
+ * Well-known symbol for defining custom equality; also available as `ObjectMap.equals`.
+ * @see ValueObject
+ */
+export const equalsSymbol: unique symbol = Symbol.for('objectmap.js/equals');
+
+/**
+ * An object that defines its own hash code and equality, used by the default `hash` and `equals` functions
+ * instead of comparing it structurally.
+ * Values that are equal by `[equalsSymbol]` must have the same `[hashSymbol]`.
+ */
+export interface ValueObject {
+  [hashSymbol](): number;
+  [equalsSymbol](other: unknown): boolean;
+}
+
+/**
+ * An Immutable.js-style value object; treated the same way as a `ValueObject`.
+ */
+export interface HashCodeObject {
+  hashCode(): number;
+  equals(other: unknown): boolean;
+}
+
+/**
+ * @returns `true` if the value defines its own hash code and equality - either by the symbol protocol,
+ * or by Immutable.js-style `hashCode()` & `equals()` methods - and `false` otherwise.
+ */
+export function isValueObject(value: unknown): value is ValueObject | HashCodeObject {
+  if (!value || (typeof value !== 'object' && typeof value !== 'function')) {
+    return false;
+  }
+
+  const v = value as Record<PropertyKey, unknown>;
+  return hasSymbolProtocol(v)
+    || (typeof v.hashCode === 'function' && typeof v.equals === 'function');
+}
+
+function hasSymbolProtocol(value: object): value is ValueObject {
+  const v = value as Record<PropertyKey, unknown>;
+  return typeof v[hashSymbol] === 'function' && typeof v[equalsSymbol] === 'function';
+}
+
+/**
+ * @internal - calls the value object's own equality.
+ */
+export function valueObjectEquals(value: ValueObject | HashCodeObject, other: unknown): boolean {
+  return hasSymbolProtocol(value)
+    ? !!value[equalsSymbol](other)
+    : !!(value as HashCodeObject).equals(other);
+}
+
+/**
+ * @internal - calls the value object's own hash code.
+ */
+export function valueObjectHash(value: ValueObject | HashCodeObject): number {
+  return hasSymbolProtocol(value)
+    ? value[hashSymbol]()
+    : (value as HashCodeObject).hashCode();
+}
@@ -0,0 +1,202 @@
+import type { Comparator } from './comparator';
+import { hashString } from './cyrb53';
+import { equals } from './equals';
+import { hash } from './hash';
+import { isValueObject } from './protocol';
+
+/**
+ * Describes the shape of keys, for `compileShape`:
+ * - `'string'`, `'number'`, `'boolean'`, `'bigint'` - primitives of that type.
+ * - `'date'` - `Date` instances.
+ * - `'any'` - any value, compared and hashed by the generic `equals` and `hash`.
+ * - `[shape]` - arrays (of any length) of items of the given shape.
+ * - `{ key: shape, ... }` - plain objects with exactly the given (enumerable) keys, whose values are of the given shapes.
+ */
+export type Shape =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'bigint'
+  | 'date'
+  | 'any'
+  | readonly [Shape]
+  | { readonly [key: string]: Shape };
+
+/**
+ * The type of values described by a shape.
+ */
+export type ShapeType<S extends Shape> =
+  S extends 'string' ? string
+  : S extends 'number' ? number
+  : S extends 'boolean' ? boolean
+  : S extends 'bigint' ? bigint
+  : S extends 'date' ? Date
+  : S extends 'any' ? unknown
+  : S extends readonly [infer T extends Shape] ? ShapeType<T>[]
+  : { -readonly [K in keyof S]: S[K] extends Shape ? ShapeType<S[K]> : never };
+
+/**
+ * Compiles equality and hash functions specialized for keys of the given shape, generated once (with `new Function`),
+ * which avoid the generic functions' allocations, key sorting and recursion.
+ * For values that conform to the shape, they're equivalent to the generic `equals` and `hash` - including the hashes
+ * themselves; other values are deferred to the generic functions.
+ * @example
+ * const comparator = compileShape({ tenantId: 'string', date: 'date', tags: ['string'] });
+ * const map = new ObjectMap(undefined, comparator);
+ */
+export function compileShape(shape: Shape): Comparator {
+  const compiler = new ShapeCompiler();
+  const root = compiler.compile(shape);
+
+  const source = `function keyCount(v) {
+  let n = 0;
+  for (const key in v) n++;
+  return n;
+}
+${compiler.functions.join('\n')}
+return {
+  equals: (a, b) => a === b || (check${root}(a) && check${root}(b) ? equals${root}(a, b) : genericEquals(a, b)),
+  hash: value => check${root}(value) ? hash${root}(value) : genericHash(value)
+};`;
+
+  return new Function('hashString', 'isValueObject', 'genericEquals', 'genericHash', source)(
+    hashString,
+    isValueObject,
+    equals,
+    hash
+  );
+}
+
+/**
+ * @internal - the hash of the constructor name of dates, which prefixes their hashes.
+ */
+const DATE = hashString('Date', 0) | 0;
+
+/**
+ * @internal - generates the source of `check`, `equals` and `hash` functions for each node of a shape, numbered in order.
+ * Generated hashes replicate the generic `hash` exactly (with the default options), step by step.
+ */
+class ShapeCompiler {
+  functions: string[] = [];
+  private count = 0;
+
+  /**
+   * @returns the number of the node's functions.
+   */
+  compile(shape: Shape): number {
+    const n = this.count++;
+
+    if (typeof shape === 'string') {
+      this.functions.push(...this.primitive(n, shape));
+    }
+    else if (Array.isArray(shape)) {
+      if (shape.length !== 1) {
+        throw new TypeError(`Array shapes should have exactly one item shape, got ${shape.length}`);
+      }
+      this.functions.push(...this.array(n, this.compile(shape[0])));
+    }
+    else if (shape && typeof shape === 'object') {
+      const keys = Object.keys(shape).sort();
+      const fields = keys.map(key => [key, this.compile((shape as Record<string, Shape>)[key])] as const);
+      this.functions.push(...this.object(n, fields));
+    }
+    else {
+      throw new TypeError(`Invalid shape: ${String(shape)}`);
+    }
+
+    return n;
+  }
+
+  private primitive(n: number, type: string): string[] {
+    switch (type) {
+      case 'string':
+        return [
+          `function check${n}(v) { return typeof v === 'string'; }`,
+          `function equals${n}(a, b) { return a === b; }`,
+          `function hash${n}(v) { return hashString(v, 0); }`
+        ];
+      case 'number':
+        return [
+          `function check${n}(v) { return typeof v === 'number'; }`,
+          `function equals${n}(a, b) { return a === b || (a !== a && b !== b); }`,
+          `function hash${n}(v) { return hashString(String(v), 0); }`
+        ];
+      case 'boolean':
+      case 'bigint':
+        return [
+          `function check${n}(v) { return typeof v === '${type}'; }`,
+          `function equals${n}(a, b) { return a === b; }`,
+          `function hash${n}(v) { return hashString(String(v), 0); }`
+        ];
+      case 'date':
+        return [
+          `function check${n}(v) { return v instanceof Date && v.constructor === Date; }`,
+          `function equals${n}(a, b) { return a.getTime() === b.getTime(); }`,
+          `function hash${n}(v) { return (92821 * ${DATE} + hashString(String(v.getTime()), 0)) | 0; }`
+        ];
+      case 'any':
+        return [
+          `function check${n}(v) { return true; }`,
+          `function equals${n}(a, b) { return genericEquals(a, b); }`,
+          `function hash${n}(v) { return genericHash(v); }`
+        ];
+      default:
+        throw new TypeError(`Invalid shape: '${type}'`);
+    }
+  }
+
+  /**
+   * Arrays are hashed by their items' hashes, in order.
+   */
+  private array(n: number, item: number): string[] {
+    return [
+      `function check${n}(v) {
+  if (!Array.isArray(v) || v.constructor !== Array) return false;
+  for (let i = 0; i < v.length; i++) if (!check${item}(v[i])) return false;
+  return true;
+}`,
+      `function equals${n}(a, b) {
+  if (a === b) return true;
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) if (!equals${item}(a[i], b[i])) return false;
+  return true;
+}`,
+      `function hash${n}(v) {
+  let h = 0;
+  for (let i = 0; i < v.length; i++) { h = 92821 * h + hash${item}(v[i]); h |= 0; }
+  return h;
+}`
+    ];
+  }
+
+  /**
+   * Objects are hashed by the hashes of their (sorted) keys and values; the keys' hashes are constant, and computed here.
+   */
+  private object(n: number, fields: (readonly [key: string, node: number])[]): string[] {
+    const access = (v: string, key: string) => `${v}[${JSON.stringify(key)}]`;
+
+    const checks = fields.map(([key, node]) => `Object.hasOwn(v, ${JSON.stringify(key)}) && check${node}(${access('v', key)})`);
+    const comparisons = fields.map(([key, node]) => `equals${node}(${access('a', key)}, ${access('b', key)})`);
+    const steps = fields.map(([key, node]) => {
+      return `h = 92821 * h + ${hashString(key, 0)}; h |= 0;
+  h = 92821 * h + hash${node}(${access('v', key)}); h |= 0;`;
+    });
+
+    return [
+      `function check${n}(v) {
+  return v !== null && typeof v === 'object' && v.constructor === Object
+    && keyCount(v) === ${fields.length} && !isValueObject(v)
+    ${checks.map(check => `&& ${check}`).join('\n    ')};
+}`,
+      `function equals${n}(a, b) {
+  return a === b || (true
+    ${comparisons.map(comparison => `&& ${comparison}`).join('\n    ')});
+}`,
+      `function hash${n}(v) {
+  let h = 0;
+  ${steps.join('\n  ')}
+  return h;
+}`
+    ];
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * @internal - the key functions of a map, used by its storage.
+ */
+export interface KeyFunctions<K> {
+  /** Compares a key to a stored key (passed second) */
+  equals: (a: K, b: K) => boolean;
+  /** Alternative hashes under which keys equal to the given key may be stored; see `ObjectMapOptions.probe` */
+  probe: ((key: K) => Iterable<number>) | undefined;
+  /**
+   * A secondary hash, independent of the map's hash but consistent with `equals`; orders keys with equal hashes
+   * in treeified buckets. Without it (see `ObjectMapOptions.tiebreak`), such keys are compared one by one.
+   */
+  tiebreak: ((key: K) => number) | undefined;
+}
+
+/**
+ * @internal - how the entries of an `ObjectMap` are stored, in insertion order.
+ * Keys are always passed together with their (normalized) hashes, which the storage keeps alongside them.
+ * The storage only resizes when asked to (or when it must, to stay valid); the map's load factor is handled by the map.
+ */
+export interface MapStorage<K, V> {
+  readonly size: number;
+  readonly capacity: number;
+
+  has(key: K, hash: number): boolean;
+  get(key: K, hash: number): V | undefined;
+  /**
+   * Replaces the value of an existing key (keeping the stored key), or inserts a new entry at the end.
+   * @param adopt applied to the key before it's inserted; see `ObjectMapOptions.keyPolicy`.
+   */
+  set(key: K, value: V, hash: number, adopt?: (key: K) => K): void;
+  /**
+   * Inserts a new entry at the end, unless the key exists (in which case nothing is changed).
+   * @param adopt applied to the key before it's inserted; see `ObjectMapOptions.keyPolicy`.
+   * @returns `true` if the entry was inserted.
+   */
+  add(key: K, value: V, hash: number, adopt?: (key: K) => K): boolean;
+  delete(key: K, hash: number): boolean;
+  clear(): void;
+
+  /**
+   * Changes the capacity, keeping the entries and their order.
+   */
+  resize(capacity: number): void;
+  /**
+   * Reorders the entries by the compare function.
+   */
+  sort(compareFn: (a: [K, V], b: [K, V]) => number): void;
+
+  /**
+   * Iterators follow the semantics of native `Map` iterators under mutation: entries deleted before they're visited
+   * are skipped, entries added during iteration are visited, and iterators are not invalidated by resizing or clearing.
+   */
+  keys(): Generator<K>;
+  values(): Generator<V>;
+  entries(): Generator<[K, V]>;
+  /**
+   * Calls the callback for each entry, in order, with its stored hash; the storage must not be modified meanwhile.
+   */
+  forEachEntry(callback: (key: K, value: V, hash: number) => void): void;
+}
+
+/**
+ * The available storage engines; see `ObjectMapOptions.storage`.
+ */
+export type StorageType = 'chained' | 'open-addressing';
+
+/**
+ * @internal - maps `NaN` (e.g. from a faulty hash function) to `0`, so that hashes can be compared with `===`.
+ */
+export function normalizeHash(h: number): number {
+  return h === h ? h : 0;
+}
+
+/**
+ * @internal - the index of the bucket (or slot) for the given hash; always a valid index, even for negative hashes.
+ */
+export function bucketIndex(h: number, capacity: number): number {
+  const i = Math.floor(h) % capacity;
+  // `|| 0` maps -0 to the first bucket
+  return i < 0 ? i + capacity : i || 0;
+}
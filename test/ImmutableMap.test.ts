@@ -52,6 +52,35 @@ describe('ImmutableMap', () => {
         equals: _equals,
       });
     })
+    test('keyTransform', () => {
+      const lowerCase = (key: string) => key.toLowerCase();
+      const map = new ImmutableMap<string, number>([['Foo', 1]], { keyTransform: lowerCase });
+      expect(map.options.keyTransform).toBe(lowerCase);
+
+      const updated = map.set('FOO', 2);
+      expect(updated.size).toBe(1);
+      expect([...updated.entries()]).toEqual([['Foo', 2]]);
+      expect(updated.delete('foo').size).toBe(0);
+      expect(updated.clear().options.keyTransform).toBe(lowerCase);
+    })
+
+    test('keyPolicy', () => {
+      const key = { id: 1 };
+      const map = new ImmutableMap([[key, 'a']], { keyPolicy: 'clone' });
+      expect(map.options.keyPolicy).toBe('clone');
+      key.id = 2;
+      expect(map.get({ id: 1 })).toBe('a');
+
+      const updated = map.set({ id: 3 }, 'c');
+      expect([...updated.keys()]).toEqual([{ id: 1 }, { id: 3 }]);
+      expect(updated.clear().options.keyPolicy).toBe('clone');
+
+      const frozen = new ImmutableMap<{ id: number }, string>(undefined, { keyPolicy: 'freeze' });
+      const frozenKey = { id: 1 };
+      frozen.set(frozenKey, 'a');
+      expect(Object.isFrozen(frozenKey)).toBe(true);
+    })
+
     test('copy constructor', () => {
       const map = new ImmutableMap([[1, 'a'], [2, 'b']]);
       const copy = new ImmutableMap(map);
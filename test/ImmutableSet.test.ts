@@ -54,6 +54,31 @@ describe('ImmutableSet', () => {
       })
     })
 
+    test('keyTransform', () => {
+      const lowerCase = (key: string) => key.toLowerCase();
+      const set = new ImmutableSet(['Foo'], { keyTransform: lowerCase });
+      expect(set.options.keyTransform).toBe(lowerCase);
+
+      const updated = set.add('FOO').add('bar');
+      expect([...updated.values()]).toEqual(['Foo', 'bar']);
+      expect(updated.has('BAR')).toBe(true);
+      expect(updated.delete('foo').size).toBe(1);
+      expect(updated.clear().options.keyTransform).toBe(lowerCase);
+    })
+
+    test('keyPolicy', () => {
+      const member = { id: 1 };
+      const set = new ImmutableSet<{ id: number }>(undefined, { keyPolicy: 'freeze' });
+      const updated = set.add(member);
+      expect(Object.isFrozen(member)).toBe(true);
+      expect(updated.has({ id: 1 })).toBe(true);
+      expect(updated.options.keyPolicy).toBe('freeze');
+
+      const cloned = new ImmutableSet([{ id: 1 }], { keyPolicy: 'clone' }).add(member);
+      expect(cloned.size).toBe(1);
+      expect([...cloned.values()][0]).not.toBe(member);
+    })
+
     test('copy constructor', () => {
       const map = new ImmutableSet([1, 2]);
       const copy = new ImmutableSet(map);
@@ -1,5 +1,5 @@
 import { expect, describe, vi } from 'vitest';
-import { ObjectMap, equals, hash } from '../src';
+import { ObjectMap, createApproximateComparator, createComparator, createEquals, createHash, deepFreeze, equals, hash } from '../src';
 
 type ObjectKey = { id: number };
 
@@ -74,6 +74,146 @@ describe('ObjectMap', () => {
       const fromIterableWithSize2 = new ObjectMap(iterWithSize, { initialCapacity: 1, loadFactor: 1 });
       expect(fromIterableWithSize2.capacity).toBe(1);
     })
+    test('keyCache', () => {
+      const hashSpy = vi.fn(_hash);
+      const key = deepFreeze({ id: 1, tags: ['a', 'b'] });
+
+      const map = new ObjectMap<typeof key, string>(undefined, { hash: hashSpy, keyCache: 'frozen' });
+      map.set(key, 'a');
+      expect(map.get(key)).toBe('a');
+      expect(map.has(key)).toBe(true);
+      expect(hashSpy).toHaveBeenCalledTimes(1);
+
+      // Equal keys of different identities are still found
+      expect(map.get(Object.freeze({ id: 1, tags: ['a', 'b'] }))).toBe('a');
+      expect(map.get({ id: 1, tags: ['a', 'b'] })).toBe('a');
+
+      // Carries over to clones, which share the cache
+      const clone = map.clone();
+      expect(clone.options.keyCache).toBe('frozen');
+      hashSpy.mockClear();
+      expect(clone.get(key)).toBe('a');
+      expect(hashSpy).not.toHaveBeenCalled();
+    })
+
+    test('seed', () => {
+      const seeded = new ObjectMap([[{ id: 1 }, 'a'], [{ id: 2 }, 'b']], { seed: 42 });
+      expect(seeded.options.seed).toBe(42);
+      expect(seeded.options.hash).not.toBe(hash);
+      expect(seeded.options.hash({ id: 1 })).toBe(createHash({ seed: 42 })({ id: 1 }));
+      expect(seeded.get({ id: 1 })).toBe('a');
+      expect(seeded.get({ id: 2 })).toBe('b');
+
+      // Carries over to clones
+      expect(seeded.clone().options).toEqual(seeded.options);
+      expect(seeded.emptyClone().options).toEqual(seeded.options);
+
+      const random1 = new ObjectMap(undefined, { seed: 'random' });
+      const random2 = new ObjectMap(undefined, { seed: 'random' });
+      expect(typeof random1.options.seed).toBe('number');
+      expect(random1.options.seed).not.toBe(random2.options.seed);
+      expect(random1.clone().options.seed).toBe(random1.options.seed);
+
+      // Ignored if a hash function is passed
+      const custom = new ObjectMap(undefined, { seed: 42, hash: _hash });
+      expect(custom.options.hash).toBe(_hash);
+    })
+
+    test('keyTransform', () => {
+      const lowerCase = (key: string) => key.toLowerCase();
+      const map = new ObjectMap<string, number>([['Foo', 1]], { keyTransform: lowerCase });
+      expect(map.options.keyTransform).toBe(lowerCase);
+
+      map.set('FOO', 2).set('bar', 3);
+      expect(map.size).toBe(2);
+      expect(map.get('foo')).toBe(2);
+      expect(map.has('BAR')).toBe(true);
+
+      // The original key from the first insertion is kept
+      expect([...map.entries()]).toEqual([['Foo', 2], ['bar', 3]]);
+
+      expect(map.delete('fOO')).toBe(true);
+      expect([...map.keys()]).toEqual(['bar']);
+
+      // Keys projected to a field
+      type User = { id: number, name: string };
+      const users = new ObjectMap<User, string>(undefined, { keyTransform: (user: User) => user.id });
+      users.set({ id: 1, name: 'Alice' }, 'a');
+      users.set({ id: 1, name: 'Alicia' }, 'b');
+      expect([...users.entries()]).toEqual([[{ id: 1, name: 'Alice' }, 'b']]);
+
+      // Carries over to clones
+      expect(map.clone().options).toEqual(map.options);
+      expect(map.clone().get('BAR')).toBe(3);
+      expect(map.emptyClone().options).toEqual(map.options);
+    })
+
+    test('keyPolicy', () => {
+      const reference = new ObjectMap<{ id: number }, string>();
+      const key = { id: 1 };
+      reference.set(key, 'a');
+      key.id = 2;
+      // The entry is unreachable once its key is mutated
+      expect(reference.get({ id: 1 })).toBe(undefined);
+      expect(reference.get({ id: 2 })).toBe(undefined);
+
+      const frozen = new ObjectMap<{ id: number, tags: string[] }, string>(undefined, { keyPolicy: 'freeze' });
+      const frozenKey = { id: 1, tags: ['a'] };
+      frozen.set(frozenKey, 'a');
+      expect(Object.isFrozen(frozenKey)).toBe(true);
+      expect(Object.isFrozen(frozenKey.tags)).toBe(true);
+      expect([...frozen.keys()][0]).toBe(frozenKey);
+
+      const cloned = new ObjectMap<{ id: number, tags: string[] }, string>(undefined, { keyPolicy: 'clone' });
+      const clonedKey = { id: 1, tags: ['a'] };
+      cloned.set(clonedKey, 'a');
+      clonedKey.tags.push('b');
+      expect(cloned.get({ id: 1, tags: ['a'] })).toBe('a');
+      expect([...cloned.keys()]).toEqual([{ id: 1, tags: ['a'] }]);
+      expect([...cloned.keys()][0]).not.toBe(clonedKey);
+
+      // Setting an existing key keeps the stored key
+      const stored = [...cloned.keys()][0];
+      cloned.set({ id: 1, tags: ['a'] }, 'b');
+      expect([...cloned.keys()][0]).toBe(stored);
+      expect(cloned.get({ id: 1, tags: ['a'] })).toBe('b');
+
+      // Carries over to clones, which own their keys too
+      expect(cloned.clone().options.keyPolicy).toBe('clone');
+      expect([...cloned.clone().keys()][0]).toBe(stored);
+      const reclone = new ObjectMap(reference, { keyPolicy: 'clone' });
+      expect([...reclone.keys()][0]).not.toBe(key);
+      expect(reclone.options.keyPolicy).toBe('clone');
+    })
+
+    test(`keyPolicy: 'clone' with maxDepth`, () => {
+      for (const storage of ['chained', 'open-addressing'] as const) {
+        // Objects beyond maxDepth are compared by reference, so their copies wouldn't be found - such keys are rejected
+        const shallow = new ObjectMap<object, number>(undefined, {
+          ...createComparator({ maxDepth: 0 }),
+          keyPolicy: 'clone',
+          storage
+        });
+        const key = { point: { x: 1 } };
+        expect(() => shallow.set(key, 1)).toThrow(TypeError);
+        expect(() => shallow.set(key, 1)).toThrow(`ObjectMap key {"point":{"x":1}} can't be cloned (keyPolicy: 'clone')`);
+        expect(shallow.size).toBe(0);
+        expect([...shallow.keys()]).toEqual([]);
+
+        // Keys within maxDepth are cloned as usual
+        shallow.set({ x: 1 }, 1);
+        shallow.set({ x: 1 }, 2);
+        expect(shallow.size).toBe(1);
+        expect(shallow.get({ x: 1 })).toBe(2);
+
+        const deep = new ObjectMap<object, number>(undefined, { ...createComparator({ maxDepth: 1 }), keyPolicy: 'clone', storage });
+        deep.set(key, 1);
+        expect(deep.get(key)).toBe(1);
+        expect(() => deep.set({ a: { b: { c: 1 } } }, 2)).toThrow(TypeError);
+        expect(deep.size).toBe(1);
+      }
+    })
+
     test('copy constructor', () => {
       const map = new ObjectMap([[1, 'a'], [2, 'b']]);
       const copy = new ObjectMap(map);
@@ -133,6 +273,282 @@ describe('ObjectMap', () => {
       const fromSet = ObjectMap.fromSet(new Set([1, 2, 3]), v => v, options);
       expect(fromSet.options).toEqual(options);
     })
+
+    test('grows beyond the load factor, keeping order', () => {
+      const map = new ObjectMap<ObjectKey, number>(undefined, { initialCapacity: 4, loadFactor: 0.75 });
+      for (let i = 0; i < 3; i++) {
+        map.set({ id: i }, i);
+      }
+      expect(map.capacity).toBe(4);
+
+      map.set({ id: 3 }, 3);
+      expect(map.capacity).toBe(8);
+
+      for (let i = 4; i < 100; i++) {
+        map.set({ id: i }, i);
+      }
+      expect(map.capacity).toBe(256);
+      expect(map.size).toBe(100);
+      expect([...map.values()]).toEqual([...Array(100).keys()]);
+      for (let i = 0; i < 100; i++) {
+        expect(map.get({ id: i })).toBe(i);
+      }
+
+      // Never grows with an infinite load factor
+      const fixed = new ObjectMap<number, number>(undefined, { initialCapacity: 2, loadFactor: Infinity });
+      for (let i = 0; i < 10; i++) {
+        fixed.set(i, i);
+      }
+      expect(fixed.capacity).toBe(2);
+      expect(fixed.get(9)).toBe(9);
+    })
+
+    test('shrinks below the shrink factor', () => {
+      expect(() => new ObjectMap(undefined, { loadFactor: 0.75, shrinkFactor: 0.5 })).toThrow(RangeError);
+
+      const map = new ObjectMap<number, number>(undefined, { initialCapacity: 4, shrinkFactor: 0.25 });
+      expect(map.options.shrinkFactor).toBe(0.25);
+      for (let i = 0; i < 48; i++) {
+        map.set(i, i);
+      }
+      expect(map.capacity).toBe(64);
+
+      for (let i = 0; i < 40; i++) {
+        map.delete(i);
+      }
+      expect(map.capacity).toBe(32);
+      map.delete(40);
+      expect(map.capacity).toBe(16);
+      expect([...map.keys()]).toEqual([41, 42, 43, 44, 45, 46, 47]);
+
+      // Never below the initial capacity
+      for (let i = 41; i < 48; i++) {
+        map.delete(i);
+      }
+      expect(map.capacity).toBe(4);
+
+      // Without a shrink factor, never shrinks
+      const noShrink = new ObjectMap<number, number>([[1, 1], [2, 2]], { initialCapacity: 4 });
+      noShrink.ensureCapacity(100);
+      noShrink.delete(1);
+      expect(noShrink.capacity).toBe(134);
+    })
+
+    test('ensureCapacity() & trimToSize()', () => {
+      const map = new ObjectMap<number, string>([[1, 'a'], [2, 'b']], { initialCapacity: 4, loadFactor: 0.5 });
+      expect(map.ensureCapacity(3)).toBe(map);
+      expect(map.capacity).toBe(6);
+      map.ensureCapacity(2);
+      expect(map.capacity).toBe(6);
+
+      map.ensureCapacity(50);
+      expect(map.capacity).toBe(100);
+      for (let i = 3; i <= 50; i++) {
+        map.set(i, String(i));
+      }
+      expect(map.capacity).toBe(100);
+
+      for (let i = 3; i <= 50; i++) {
+        map.delete(i);
+      }
+      expect(map.trimToSize()).toBe(map);
+      expect(map.capacity).toBe(4);
+      expect([...map.entries()]).toEqual([[1, 'a'], [2, 'b']]);
+
+      map.clear();
+      map.trimToSize();
+      expect(map.capacity).toBe(1);
+      map.set(1, 'a');
+      expect(map.get(1)).toBe('a');
+    })
+
+    test('iterates & deletes without re-hashing other keys', () => {
+      const hashSpy = vi.fn(_hash);
+      const map = new ObjectMap<ObjectKey, number>(undefined, { hash: hashSpy });
+      for (let i = 0; i < 10; i++) {
+        map.set({ id: i }, i);
+      }
+      expect(hashSpy).toHaveBeenCalledTimes(10);
+
+      hashSpy.mockClear();
+      expect([...map.keys()].length).toBe(10);
+      expect([...map.values()].length).toBe(10);
+      expect([...map.entries()].length).toBe(10);
+      map.forEach(() => { });
+      expect(hashSpy).not.toHaveBeenCalled();
+
+      map.delete({ id: 5 });
+      expect(hashSpy).toHaveBeenCalledTimes(1);
+      expect([...map.values()]).toEqual([0, 1, 2, 3, 4, 6, 7, 8, 9]);
+    })
+
+    test('compares stored hashes before keys, and reuses them on resize & copy', () => {
+      const hashSpy = vi.fn(_hash);
+      const equalsSpy = vi.fn(_equals);
+      // A single bucket, so that all keys collide
+      const map = new ObjectMap<ObjectKey, number>(undefined, { initialCapacity: 1, loadFactor: Infinity, hash: hashSpy, equals: equalsSpy });
+      for (let i = 0; i < 10; i++) {
+        map.set({ id: i }, i);
+      }
+      expect(equalsSpy).not.toHaveBeenCalled();
+
+      expect(map.get({ id: 9 })).toBe(9);
+      expect(equalsSpy).toHaveBeenCalledTimes(1);
+
+      hashSpy.mockClear();
+      map.ensureCapacity(100);
+      const clone = map.clone();
+      expect(hashSpy).not.toHaveBeenCalled();
+      expect(clone.get({ id: 3 })).toBe(3);
+      expect([...clone.values()]).toEqual([...map.values()]);
+    })
+
+    test('keys that are null', () => {
+      const map = new ObjectMap<ObjectKey | null, number>([[{ id: 1 }, 1], [null, 2], [{ id: 3 }, 3]]);
+      expect(map.get(null)).toBe(2);
+      expect([...map.keys()]).toEqual([{ id: 1 }, null, { id: 3 }]);
+
+      map.delete({ id: 3 });
+      expect([...map.keys()]).toEqual([{ id: 1 }, null]);
+      map.set({ id: 4 }, 4);
+      expect([...map.keys()]).toEqual([{ id: 1 }, null, { id: 4 }]);
+    })
+
+    test('stores buckets at valid indices for any hash', () => {
+      const hashes = [-1, -17, 2 ** 53, 1.5, NaN, -0];
+      const map = new ObjectMap<number, number>(undefined, { initialCapacity: 8, loadFactor: Infinity, hash: k => hashes[k as number] });
+      hashes.forEach((_, i) => map.set(i, i));
+      hashes.forEach((_, i) => expect(map.get(i)).toBe(i));
+
+      const indices = Object.keys((map as any).storage.buckets).map(Number);
+      expect(indices.every(i => Number.isInteger(i) && i >= 0 && i < map.capacity)).toBe(true);
+    })
+
+    test('treeifies buckets of colliding keys', () => {
+      // Each comparison transforms both keys, so the number of transforms counts the keys compared
+      const keyTransform = vi.fn((key: ObjectKey) => key);
+      const map = new ObjectMap<ObjectKey, number>(undefined, { hash: () => 7, keyTransform });
+      for (let id = 0; id < 1000; id++) {
+        map.set({ id }, id);
+      }
+      expect(map.size).toBe(1000);
+      expect((map as any).storage.buckets[7].treeified).toBe(true);
+
+      keyTransform.mockClear();
+      expect(map.get({ id: 500 })).toBe(500);
+      expect(map.has({ id: 1000 })).toBe(false);
+      expect(keyTransform.mock.calls.length).toBeLessThan(20);
+
+      for (let id = 0; id < 995; id++) {
+        expect(map.delete({ id })).toBe(true);
+      }
+      expect((map as any).storage.buckets[7].treeified).toBe(false);
+      expect([...map.keys()]).toEqual([{ id: 995 }, { id: 996 }, { id: 997 }, { id: 998 }, { id: 999 }]);
+      expect(map.get({ id: 998 })).toBe(998);
+    })
+
+    test('treeified buckets without a tiebreak', () => {
+      // Custom equality - keys with equal hashes are compared one by one
+      const map = new ObjectMap<ObjectKey, number>(undefined, { equals: _equals, hash: key => (key as ObjectKey).id % 3 });
+      for (let id = 0; id < 100; id++) {
+        map.set({ id }, id);
+      }
+      for (let id = 0; id < 100; id++) {
+        expect(map.get({ id })).toBe(id);
+      }
+      map.ensureCapacity(1000);
+      for (let id = 0; id < 100; id += 2) {
+        map.delete({ id });
+      }
+      for (let id = 0; id < 100; id++) {
+        expect(map.get({ id })).toBe(id % 2 ? id : undefined);
+      }
+    })
+
+    test('tiebreak', () => {
+      // A custom `equals` with a matching tiebreak, from `createComparator` - keys are binary-searched
+      const comparator = createComparator({ ignoreKeys: ['updatedAt'] });
+      const equalsSpy = vi.fn(comparator.equals);
+      const map = new ObjectMap<ObjectKey & { updatedAt: number }, number>(undefined, {
+        ...comparator,
+        equals: equalsSpy,
+        hash: () => 7
+      });
+      expect(map.options.tiebreak).toBe(comparator.tiebreak);
+      for (let id = 0; id < 1000; id++) {
+        map.set({ id, updatedAt: id }, id);
+      }
+      expect((map as any).storage.buckets[7].treeified).toBe(true);
+
+      equalsSpy.mockClear();
+      expect(map.get({ id: 500, updatedAt: 0 })).toBe(500);
+      expect(map.has({ id: 1000, updatedAt: 0 })).toBe(false);
+      expect(equalsSpy.mock.calls.length).toBeLessThan(10);
+
+      // Carries over to clones with the same `equals`
+      expect(map.clone().options.tiebreak).toBe(comparator.tiebreak);
+      expect(new ObjectMap(map, { equals: _equals }).options.tiebreak).toBe(undefined);
+      expect(new ObjectMap().options.tiebreak).toBe(undefined);
+    })
+
+    test('rehash()', () => {
+      const a = { id: 1 };
+      const b = { id: 2 };
+      const c = { id: 3 };
+      const map = new ObjectMap([[a, 'a'], [b, 'b'], [c, 'c']], { keyCache: 'all' });
+      expect(map.get({ id: 1 })).toBe('a');
+
+      // Mutated keys are unreachable, until rehashed
+      a.id = 4;
+      c.id = 2;
+      expect(map.get({ id: 4 })).toBe(undefined);
+
+      const onConflict = vi.fn((existing: string, duplicate: string) => existing + duplicate);
+      expect(map.rehash(onConflict)).toBe(map);
+      expect(onConflict).toHaveBeenCalledWith('b', 'c', { id: 2 });
+      expect(map.size).toBe(2);
+      expect([...map.entries()]).toEqual([[{ id: 4 }, 'a'], [{ id: 2 }, 'bc']]);
+      expect([...map.keys()][1]).toBe(b);
+      expect(map.get({ id: 4 })).toBe('a');
+      expect(map.get({ id: 1 })).toBe(undefined);
+
+      // By default, the later value is kept
+      b.id = 4;
+      map.rehash();
+      expect([...map.entries()]).toEqual([[{ id: 4 }, 'bc']]);
+      expect([...map.keys()][0]).toBe(a);
+
+      const open = new ObjectMap([[a, 1]], { storage: 'open-addressing' });
+      a.id = 5;
+      expect(open.rehash().get({ id: 5 })).toBe(1);
+    })
+
+    test('devMode & validate()', () => {
+      const key = { id: 1, name: 'a' };
+      const map = new ObjectMap([[key, 1], [{ id: 2, name: 'b' }, 2]], { devMode: true });
+      expect(map.options.devMode).toBe(true);
+      expect(map.validate()).toBe(map);
+      expect(map.get({ id: 3, name: 'c' })).toBe(undefined);
+
+      key.name = 'z';
+      const message = 'ObjectMap key {"id":1,"name":"z"} (entry #0) was mutated after it was inserted';
+      expect(() => map.get({ id: 1, name: 'a' })).toThrow(message);
+      expect(() => map.has({ id: 3, name: 'c' })).toThrow(message);
+      expect(() => map.delete({ id: 3, name: 'c' })).toThrow(message);
+      expect(() => map.ensureCapacity(100)).toThrow(message);
+      // Hits are not validated
+      expect(map.get({ id: 2, name: 'b' })).toBe(2);
+
+      map.rehash();
+      expect(map.get({ id: 1, name: 'z' })).toBe(1);
+      expect(map.clone().options.devMode).toBe(true);
+
+      // Without dev mode, only explicit validation throws
+      const lax = new ObjectMap([[key, 1]]);
+      key.id = 5;
+      expect(lax.get({ id: 1, name: 'z' })).toBe(undefined);
+      expect(() => lax.validate()).toThrow('ObjectMap key {"id":5,"name":"z"}');
+    })
   })
 
   describe('ES6 Map API', test => {
@@ -158,6 +574,117 @@ describe('ObjectMap', () => {
       expect(object.get({ id: 3 })).toBe(undefined);
     });
 
+    test('get() & set() with cyclic keys', () => {
+      type Node = { id: number, parent?: Node, children: Node[] };
+      const tree = (id: number): Node => {
+        const root: Node = { id, children: [] };
+        root.children.push({ id: id + 1, parent: root, children: [] });
+        return root;
+      };
+
+      const map = new ObjectMap<Node, string>();
+      map.set(tree(1), 'a');
+      map.set(tree(2), 'b');
+      expect(map.get(tree(1))).toBe('a');
+      expect(map.get(tree(2))).toBe('b');
+      expect(map.has(tree(3))).toBe(false);
+
+      map.set(tree(1), 'c');
+      expect(map.size).toBe(2);
+      expect(map.get(tree(1))).toBe('c');
+      expect(map.delete(tree(1))).toBe(true);
+      expect(map.has(tree(1))).toBe(false);
+    });
+
+    test('get() & set() with keys that refer to a cyclic key', () => {
+      // `b` refers to `a` where `a` refers back to itself; their hashes differ, so they must not be equal
+      const a: any = {};
+      a.x = a;
+      const b = { x: a };
+
+      const map = new ObjectMap<object, number>();
+      map.set(a, 1);
+      expect(map.get(b)).toBe(undefined);
+      map.set(b, 2);
+      expect(map.size).toBe(2);
+      expect(map.get(a)).toBe(1);
+      expect(map.get(b)).toBe(2);
+      expect(map.get({ x: a })).toBe(2);
+    });
+
+    test('get() & set() with sets and maps that refer to a cyclic key', () => {
+      const set = new Set<unknown>();
+      set.add(set);
+      const map = new Map<unknown, number>();
+      map.set(map, 1);
+
+      const objectMap = new ObjectMap<unknown, number>();
+      objectMap.set(set, 1);
+      objectMap.set(new Set([set]), 2);
+      objectMap.set(map, 3);
+      objectMap.set(new Map([[map, 1]]), 4);
+      expect(objectMap.size).toBe(4);
+      expect(objectMap.get(set)).toBe(1);
+      expect(objectMap.get(new Set([set]))).toBe(2);
+      expect(objectMap.get(map)).toBe(3);
+      expect(objectMap.get(new Map([[map, 1]]))).toBe(4);
+    });
+
+    test('get() & set() with built-in keys', () => {
+      const dates = new ObjectMap<Date, number>();
+      for (let i = 0; i < 10; i++) {
+        dates.set(new Date(2023, 0, i + 1), i);
+      }
+      for (let i = 0; i < 10; i++) {
+        expect(dates.get(new Date(2023, 0, i + 1))).toBe(i);
+      }
+
+      // Distinct dates are spread between buckets
+      const buckets = new Set([...dates.keys()].map(key => hash(key) % dates.capacity));
+      expect(buckets.size).toBeGreaterThan(1);
+
+      const sets = new ObjectMap<Set<number>, string>();
+      sets.set(new Set([1, 2]), 'a');
+      expect(sets.get(new Set([2, 1]))).toBe('a');
+      expect(sets.get(new Set([1, 3]))).toBe(undefined);
+    });
+
+    test('get() & set() with value object keys', () => {
+      class UserId {
+        #id: number;
+        constructor(id: number) {
+          this.#id = id;
+        }
+        [ObjectMap.hash]() {
+          return this.#id;
+        }
+        [ObjectMap.equals](other: unknown) {
+          return other instanceof UserId && other.#id === this.#id;
+        }
+      }
+
+      const map = new ObjectMap<UserId, string>();
+      map.set(new UserId(1), 'a');
+      map.set(new UserId(2), 'b');
+      expect(map.size).toBe(2);
+      expect(map.get(new UserId(1))).toBe('a');
+      expect(map.get(new UserId(2))).toBe('b');
+      expect(map.has(new UserId(3))).toBe(false);
+    });
+
+    test('get() & set() with opaque keys, in identity mode', () => {
+      const map = new ObjectMap<{ fn: () => void }, number>(undefined, {
+        equals: createEquals({ identity: true }),
+        hash: createHash({ identity: true })
+      });
+
+      const fns = Array.from({ length: 10 }, () => () => { });
+      fns.forEach((fn, i) => map.set({ fn }, i));
+      expect(map.size).toBe(10);
+      fns.forEach((fn, i) => expect(map.get({ fn })).toBe(i));
+      expect(map.has({ fn: () => { } })).toBe(false);
+    });
+
     test('delete()', () => {
       const primitive = new ObjectMap<number, string>();
       primitive.set(1, 'a');
@@ -574,6 +1101,134 @@ describe('ObjectMap', () => {
       });
       expect([...object.entries()]).toEqual([[{ id: 1 }, 2], [{ id: 2 }, 4], [{ id: 3 }, 9], [{ id: 4 }, 4]]);
     })
+
+    test('setIfAbsent()', () => {
+      for (const storage of ['chained', 'open-addressing'] as const) {
+        const hashSpy = vi.fn(_hash);
+        const map = new ObjectMap<ObjectKey, number>(undefined, { hash: hashSpy, storage, initialCapacity: 1 });
+        const key = { id: 1 };
+        expect(map.setIfAbsent(key, 1)).toBe(true);
+        expect(map.setIfAbsent({ id: 1 }, 2)).toBe(false);
+        expect([...map.entries()]).toEqual([[{ id: 1 }, 1]]);
+        expect([...map.keys()][0]).toBe(key);
+        expect(hashSpy).toHaveBeenCalledTimes(2);
+
+        // Grows like `set()`
+        for (let id = 2; id <= 20; id++) {
+          expect(map.setIfAbsent({ id }, id)).toBe(true);
+        }
+        expect(map.size).toBe(20);
+        expect(map.capacity).toBeGreaterThanOrEqual(20);
+        expect(map.get({ id: 20 })).toBe(20);
+      }
+    })
+  })
+
+  describe('open-addressing storage', test => {
+    test('behaves like a Map, keeping insertion order', () => {
+      const map = new ObjectMap<ObjectKey, number>(undefined, { storage: 'open-addressing' });
+      const native = new Map<number, number>();
+      // Deterministic pseudo-random operations, mirrored on a native map
+      let seed = 1;
+      const random = () => (seed = (seed * 48271) % 2147483647) / 2147483647;
+
+      for (let i = 0; i < 2000; i++) {
+        const id = Math.floor(random() * 300);
+        if (random() < 0.6) {
+          map.set({ id }, i);
+          native.set(id, i);
+        }
+        else {
+          expect(map.delete({ id })).toBe(native.delete(id));
+        }
+        expect(map.size).toBe(native.size);
+      }
+
+      expect([...map.entries()]).toEqual([...native.entries()].map(([id, value]) => [{ id }, value]));
+      for (let id = 0; id < 300; id++) {
+        expect(map.has({ id })).toBe(native.has(id));
+        expect(map.get({ id })).toBe(native.get(id));
+      }
+    })
+
+    test('handles colliding & invalid hashes, and never fills up', () => {
+      const hashes = [-1, -17, 2 ** 53, 1.5, NaN, -0, 7, 7, 7];
+      const map = new ObjectMap<number, number>(undefined, {
+        storage: 'open-addressing',
+        initialCapacity: 4,
+        loadFactor: Infinity,
+        hash: k => hashes[k as number]
+      });
+      hashes.forEach((_, i) => map.set(i, i));
+      hashes.forEach((_, i) => expect(map.get(i)).toBe(i));
+      expect(map.size).toBe(hashes.length);
+      expect(map.capacity).toBeGreaterThan(hashes.length);
+
+      map.delete(6);
+      expect(map.get(7)).toBe(7);
+      expect(map.get(8)).toBe(8);
+      expect([...map.keys()]).toEqual([0, 1, 2, 3, 4, 5, 7, 8]);
+    })
+
+    test('reuses space after many deletions', () => {
+      const map = new ObjectMap<number, number>(undefined, { storage: 'open-addressing', initialCapacity: 64 });
+      for (let round = 0; round < 10; round++) {
+        for (let i = 0; i < 40; i++) {
+          map.set(round * 40 + i, i);
+        }
+        for (let i = 0; i < 40; i++) {
+          map.delete(round * 40 + i);
+        }
+      }
+      expect(map.size).toBe(0);
+      expect(map.capacity).toBe(64);
+      expect((map as any).storage.keyList.length).toBeLessThanOrEqual(80);
+    })
+
+    test('sort(), clear(), ensureCapacity() & trimToSize()', () => {
+      const map = new ObjectMap<number, string>([[3, 'c'], [1, 'a'], [2, 'b'], [4, 'd']], { storage: 'open-addressing' });
+      map.delete(4);
+      map.sort(([a], [b]) => a - b);
+      expect([...map.entries()]).toEqual([[1, 'a'], [2, 'b'], [3, 'c']]);
+      expect(map.get(2)).toBe('b');
+
+      map.ensureCapacity(1000);
+      expect(map.capacity).toBeGreaterThanOrEqual(1000 / 0.75);
+      expect([...map.keys()]).toEqual([1, 2, 3]);
+      map.trimToSize();
+      expect(map.capacity).toBeLessThan(16);
+      expect([...map.keys()]).toEqual([1, 2, 3]);
+
+      map.clear();
+      expect(map.size).toBe(0);
+      expect(map.get(1)).toBe(undefined);
+      map.set(5, 'e');
+      expect([...map.entries()]).toEqual([[5, 'e']]);
+    })
+
+    test('probes alternative hashes', () => {
+      const map = new ObjectMap<number[], string>(undefined, { storage: 'open-addressing', ...createApproximateComparator({ epsilon: 0.01, precision: 1 }) });
+      map.set([0.999], 'a');
+      expect(map.get([1.001])).toBe('a');
+      expect(map.delete([1.001])).toBe(true);
+      expect(map.size).toBe(0);
+    })
+
+    test('carries over to copies, and converts between storages', () => {
+      const chained = new ObjectMap([[{ id: 1 }, 1], [{ id: 2 }, 2]]);
+      const open = new ObjectMap(chained, { storage: 'open-addressing' });
+      expect(open.options.storage).toBe('open-addressing');
+      expect([...open.entries()]).toEqual([...chained.entries()]);
+
+      const clone = open.clone();
+      expect(clone.options.storage).toBe('open-addressing');
+      expect((clone as any).storage).toBeInstanceOf((open as any).storage.constructor);
+      expect(clone.get({ id: 2 })).toBe(2);
+      expect(open.filter(v => v > 1).options.storage).toBe('open-addressing');
+
+      const back = new ObjectMap(open, { storage: 'chained' });
+      expect([...back.entries()]).toEqual([...chained.entries()]);
+    })
   })
 
   describe('static factories', test => {
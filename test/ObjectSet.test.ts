@@ -51,6 +51,77 @@ describe('ObjectSet', () => {
         equals: _equals,
       });
     })
+    test('keyTransform', () => {
+      const trimmed = (key: string) => key.trim().normalize('NFC');
+      const set = new ObjectSet(['a ', ' a', 'b'], { keyTransform: trimmed });
+      expect(set.options.keyTransform).toBe(trimmed);
+      expect(set.size).toBe(2);
+      expect(set.has('a')).toBe(true);
+
+      // The original member from the first insertion is kept
+      set.add('a');
+      expect([...set.keys()]).toEqual(['a ', 'b']);
+      expect([...set.values()]).toEqual(['a ', 'b']);
+
+      // NFC normalization
+      expect(set.add('\u0065\u0301').has('\u00e9')).toBe(true);
+
+      expect(set.delete('  b  ')).toBe(true);
+      expect(set.clone().has('a')).toBe(true);
+    })
+
+    test('keyPolicy', () => {
+      const member = { id: 1, tags: ['a'] };
+      const set = new ObjectSet([member], { keyPolicy: 'clone' });
+      expect(set.options.keyPolicy).toBe('clone');
+      member.tags.push('b');
+      expect(set.has({ id: 1, tags: ['a'] })).toBe(true);
+
+      // The stored copies are iterated
+      const [stored] = set.values();
+      expect(stored).not.toBe(member);
+      expect(stored).toEqual({ id: 1, tags: ['a'] });
+      expect([...set.entries()]).toEqual([[stored, stored]]);
+      const callback = vi.fn();
+      set.forEach(callback);
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback.mock.calls[0][0]).toBe(stored);
+      expect(callback.mock.calls[0][1]).toBe(stored);
+
+      const frozen = new ObjectSet([member], { keyPolicy: 'freeze' });
+      expect(Object.isFrozen(member)).toBe(true);
+      expect(frozen.clone().options.keyPolicy).toBe('freeze');
+    })
+
+    test('rehash() & validate()', () => {
+      const a = [1];
+      const b = [2];
+      const set = new ObjectSet([a, b]);
+      b[0] = 1;
+      expect(() => set.validate()).toThrow('ObjectMap key [1] (entry #1) was mutated');
+
+      expect(set.rehash().size).toBe(1);
+      expect([...set.values()][0]).toBe(a);
+      expect(set.validate().has([1])).toBe(true);
+
+      // Adding members validates nothing, even in dev mode
+      const arrays = Array.from({ length: 50 }, (_, i) => [i]);
+      const dev = new ObjectSet(arrays, { devMode: true });
+      arrays[0][0] = -1;
+      expect(() => dev.add([100]).add([1])).not.toThrow();
+      expect(dev.size).toBe(51);
+      expect(() => dev.has([0])).toThrow('was mutated');
+
+      // All views of the members agree on the merged member
+      const members: number[][] = [];
+      set.forEach(member => members.push(member));
+      expect(members).toEqual([a]);
+      expect(members[0]).toBe(a);
+      expect([...set.keys()][0]).toBe(a);
+      expect([...set.entries()][0][1]).toBe(a);
+      expect(set.reduce<number[][]>((acc, member) => [...acc, member], [])[0]).toBe(a);
+    })
+
     test('copy constructor', () => {
       const set = new ObjectSet([1, 2]);
       const copy = new ObjectSet(set);
@@ -143,6 +214,12 @@ describe('ObjectSet', () => {
       expect(object.has({ id: 1 })).toBe(true);
 
       expect(object.has({ id: 3 })).toBe(false);
+
+      // Each member is hashed once per `add()`
+      const hashSpy = vi.fn(_hash);
+      const hashed = new ObjectSet<ObjectKey>(undefined, { hash: hashSpy });
+      hashed.add({ id: 1 }).add({ id: 1 }).add({ id: 2 });
+      expect(hashSpy).toHaveBeenCalledTimes(3);
     });
 
     test('delete()', () => {
@@ -277,6 +354,15 @@ describe('ObjectSet', () => {
       expect(objectCallback).toHaveBeenCalledTimes(2);
       expect(objectCallback).toHaveBeenCalledWith({ id: 1 }, { id: 1 }, object);
       expect(objectCallback).toHaveBeenCalledWith({ id: 2 }, { id: 2 }, object);
+
+      // thisArg is passed on
+      const thisArg = {};
+      const contexts: unknown[] = [];
+      object.forEach(function (this: unknown) {
+        contexts.push(this);
+      }, thisArg);
+      expect(contexts).toEqual([thisArg, thisArg]);
+      expect(contexts[0]).toBe(thisArg);
     });
 
     test('toStringTag', () => {
@@ -449,6 +535,15 @@ describe('ObjectSet', () => {
       expect(objectNotEvery).toBe(false);
     });
 
+    test('ensureCapacity() & trimToSize()', () => {
+      const set = new ObjectSet<number>([1, 2], { initialCapacity: 4, loadFactor: 0.5 });
+      expect(set.ensureCapacity(10)).toBe(set);
+      expect(set.capacity).toBe(20);
+      expect(set.trimToSize()).toBe(set);
+      expect(set.capacity).toBe(4);
+      expect([...set]).toEqual([1, 2]);
+    });
+
     test('sort()', () => {
       const primitive = new ObjectSet<number>([1, 2, 3]);
       const primitiveSorted = primitive.sort((a, b) => b - a);
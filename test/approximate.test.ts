@@ -0,0 +1,100 @@
+import { expect, test, describe } from 'vitest';
+import { ObjectMap, ObjectSet, createApproximateComparator } from '../src';
+
+describe('createApproximateComparator()', () => {
+  test('compares numbers within epsilon, at any depth', () => {
+    const { equals } = createApproximateComparator({ epsilon: 1e-9 });
+
+    expect(equals(0.1 + 0.2, 0.3)).toBe(true);
+    expect(equals([0.1 + 0.2, { z: 1 }], [0.3, { z: 1 + 1e-12 }])).toBe(true);
+    expect(equals(new Map([['x', 0.3]]), new Map([['x', 0.1 + 0.2]]))).toBe(true);
+    expect(equals(0.3, 0.3 + 1e-6)).toBe(false);
+    expect(equals(NaN, NaN)).toBe(true);
+    expect(equals(Infinity, Infinity)).toBe(true);
+    expect(equals(Infinity, -Infinity)).toBe(false);
+    expect(equals([1, 'a'], [1, 'b'])).toBe(false);
+  });
+
+  test('numbers in the same cell have the same hash', () => {
+    const { hash } = createApproximateComparator({ epsilon: 0.01, precision: 1 });
+
+    expect(hash(0.2)).toBe(hash(0.7));
+    expect(hash([1.1, { a: 2.3 }])).toBe(hash([1.9, { a: 2.05 }]));
+    expect(hash(0.5)).not.toBe(hash(1.5));
+    expect(hash(NaN)).toBe(hash(NaN));
+  });
+
+  test('probes neighbouring cells of numbers near cell boundaries', () => {
+    const { hash, probe } = createApproximateComparator({ epsilon: 0.01, precision: 1 });
+
+    // Far from boundaries - nothing to probe
+    expect([...probe([0.5, 1.5])]).toEqual([]);
+
+    // Each number near a boundary doubles the combinations
+    expect([...probe(0.995)]).toEqual([hash(1.5)]);
+    expect(new Set(probe([0.995, 2.001]))).toEqual(new Set([
+      hash([1.5, 2.5]),
+      hash([0.5, 1.5]),
+      hash([1.5, 1.5])
+    ]));
+  });
+
+  test('finds equal keys across cell boundaries in ObjectMap', () => {
+    const comparator = createApproximateComparator({ epsilon: 0.01, precision: 1 });
+    const map = new ObjectMap<number[], string>(undefined, comparator);
+
+    map.set([0.999, 5], 'a');
+    expect(map.get([1.001, 5])).toBe('a');
+    expect(map.get([0.995, 5.005])).toBe('a');
+    expect(map.has([1.02, 5])).toBe(false);
+
+    map.set([1.005, 5], 'b');
+    expect(map.size).toBe(1);
+    expect(map.get([0.999, 5])).toBe('b');
+
+    expect(map.delete([1.001, 4.995])).toBe(true);
+    expect(map.size).toBe(0);
+  });
+
+  test('finds equal object keys in ObjectMap', () => {
+    const map = new ObjectMap<object, string>(undefined, createApproximateComparator());
+    map.set({ x: 0.3 }, 'a');
+    expect(map.get({ x: 0.1 + 0.2 })).toBe('a');
+    expect(map.has({ x: 0.4 })).toBe(false);
+
+    map.set({ point: { x: 0.1 + 0.2, y: [0.7] }, at: new Date(0) }, 'b');
+    expect(map.get({ point: { x: 0.3, y: [0.1 * 7] }, at: new Date(0) })).toBe('b');
+    expect(map.size).toBe(2);
+
+    // Across cell boundaries
+    const boundary = new ObjectMap<object, string>(undefined, createApproximateComparator({ epsilon: 0.01, precision: 1 }));
+    boundary.set({ x: 0.999, y: { z: 5 } }, 'a');
+    expect(boundary.get({ x: 1.001, y: { z: 4.995 } })).toBe('a');
+    expect(boundary.has({ x: 1.02, y: { z: 5 } })).toBe(false);
+  });
+
+  test('probes numbers beyond the safe integer cells in their own cells only', () => {
+    const { hash, probe } = createApproximateComparator({ epsilon: 0.01, precision: 1 });
+    expect([...probe(1e300)]).toEqual([]);
+    expect([...probe({ x: -1e20, y: [Number.MAX_VALUE] })]).toEqual([]);
+    expect(hash(1e300)).toBe(hash(1e300 + 1));
+
+    const map = new ObjectMap<object, string>(undefined, createApproximateComparator({ epsilon: 0.01, precision: 1 }));
+    map.set({ x: 1e300 }, 'a');
+    expect(map.get({ x: 1e300 })).toBe('a');
+    expect(map.has({ x: 2e300 })).toBe(false);
+  });
+
+  test('plugs into ObjectSet', () => {
+    const set = new ObjectSet([[0.1 + 0.2, 0.7], [0.3, 0.7], [0.3, 0.8]], createApproximateComparator());
+    expect(set.size).toBe(2);
+    expect(set.has([0.3, 0.1 * 7])).toBe(true);
+    expect(set.clone().has([0.30000000001, 0.7])).toBe(true);
+  });
+
+  test('validates epsilon and precision', () => {
+    expect(() => createApproximateComparator({ epsilon: -1 })).toThrow(RangeError);
+    expect(() => createApproximateComparator({ precision: 0 })).toThrow(RangeError);
+    expect(() => createApproximateComparator({ epsilon: 0 })).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,208 @@
+import { expect, test, describe } from 'vitest';
+import { ObjectMap, ObjectSet, createComparator, equals, hash } from '../src';
+
+/** Asserts that the comparator finds a and b equal, with equal hashes (and tiebreaks) */
+function expectEqual({ equals, hash, tiebreak }: ReturnType<typeof createComparator>, a: unknown, b: unknown) {
+  expect(equals(a, b)).toBe(true);
+  expect(equals(b, a)).toBe(true);
+  expect(hash(a)).toBe(hash(b));
+  expect(tiebreak!(a)).toBe(tiebreak!(b));
+}
+
+describe('createComparator()', () => {
+  test('defaults to the default equals() and hash()', () => {
+    const comparator = createComparator();
+    const values = [1, 'a', { a: [1, { b: 2 }] }, new Map([[1, new Set([2])]])];
+    for (const value of values) {
+      expect(comparator.hash(value)).toBe(hash(value));
+      expect(comparator.equals(value, structuredClone(value))).toBe(equals(value, structuredClone(value)));
+    }
+  });
+
+  test('tiebreak is a differently-seeded hash', () => {
+    const value = { a: [1, { b: 2 }] };
+    const comparator = createComparator();
+    expect(comparator.tiebreak!(value)).not.toBe(comparator.hash(value));
+
+    const seeded = createComparator({ seed: 42 });
+    expect(seeded.tiebreak!(value)).not.toBe(seeded.hash(value));
+    expect(seeded.tiebreak!(value)).not.toBe(comparator.tiebreak!(value));
+  });
+
+  test('ignoreKeys', () => {
+    const comparator = createComparator({ ignoreKeys: ['updatedAt', '_rev'] });
+
+    expectEqual(comparator, { id: 1, updatedAt: 1 }, { id: 1, updatedAt: 2 });
+    expectEqual(comparator, { id: 1, updatedAt: 1 }, { id: 1 });
+    expectEqual(comparator, { id: 1, _rev: 'a' }, { _rev: 'b', id: 1 });
+
+    // At any depth
+    expectEqual(comparator, { user: { id: 1, _rev: 'a' }, tags: [{ _rev: 1 }] }, { user: { id: 1, _rev: 'b' }, tags: [{ _rev: 2 }] });
+    expectEqual(comparator, new Map([['a', { id: 1, _rev: 1 }]]), new Map([['a', { id: 1, _rev: 2 }]]));
+
+    // Other keys are still compared
+    expect(comparator.equals({ id: 1, updatedAt: 1 }, { id: 2, updatedAt: 1 })).toBe(false);
+  });
+
+  test('ignorePaths', () => {
+    const comparator = createComparator({ ignorePaths: ['meta.updatedAt', 'items.*.version'] });
+
+    expectEqual(comparator, { id: 1, meta: { updatedAt: 1 } }, { id: 1, meta: { updatedAt: 2 } });
+    expectEqual(
+      comparator,
+      { items: [{ id: 1, version: 1 }, { id: 2, version: 1 }] },
+      { items: [{ id: 1, version: 3 }, { id: 2 }] }
+    );
+
+    // Only the given paths are ignored
+    expect(comparator.equals({ updatedAt: 1 }, { updatedAt: 2 })).toBe(false);
+    expect(comparator.equals({ other: { updatedAt: 1 } }, { other: { updatedAt: 2 } })).toBe(false);
+    expect(comparator.equals({ meta: { createdAt: 1 } }, { meta: { createdAt: 2 } })).toBe(false);
+    expect(comparator.equals({ items: [{ id: 1 }] }, { items: [{ id: 2 }] })).toBe(false);
+  });
+
+  test('maxDepth', () => {
+    const comparator = createComparator({ maxDepth: 1 });
+    const shared = { deep: true };
+
+    // The root and its children are compared by contents
+    expectEqual(comparator, { a: [1, 2] }, { a: [1, 2] });
+
+    // Deeper objects are compared by reference
+    expectEqual(comparator, { a: [shared] }, { a: [shared] });
+    expect(comparator.equals({ a: [{ deep: true }] }, { a: [{ deep: true }] })).toBe(false);
+    expect(comparator.hash({ a: [{ deep: true }] })).not.toBe(comparator.hash({ a: [{ deep: true }] }));
+
+    // Primitives are compared by value, at any depth
+    expectEqual(comparator, { a: { b: 1 } }, { a: { b: 1 } });
+
+    // `0` compares only the root by contents
+    const shallow = createComparator({ maxDepth: 0 });
+    expectEqual(shallow, { a: 1 }, { a: 1 });
+    expectEqual(shallow, { a: shared }, { a: shared });
+    expect(shallow.equals({ a: { deep: true } }, { a: { deep: true } })).toBe(false);
+  });
+
+  test('includeSymbols', () => {
+    const tag = Symbol('tag');
+    const other = Symbol('other');
+
+    // By default, symbol keys are ignored
+    expect(equals({ id: 1, [tag]: 'a' }, { id: 1, [tag]: 'b' })).toBe(true);
+
+    const comparator = createComparator({ includeSymbols: true });
+    expectEqual(comparator, { id: 1, [tag]: 'a' }, { id: 1, [tag]: 'a' });
+    expectEqual(comparator, { id: 1, [tag]: 'a', [other]: 'b' }, { [other]: 'b', [tag]: 'a', id: 1 });
+    expect(comparator.equals({ id: 1, [tag]: 'a' }, { id: 1, [tag]: 'b' })).toBe(false);
+    expect(comparator.equals({ id: 1, [tag]: 'a' }, { id: 1 })).toBe(false);
+    expect(comparator.hash({ id: 1, [tag]: 'a' })).not.toBe(comparator.hash({ id: 1, [tag]: 'b' }));
+  });
+
+  test('includeNonEnumerable', () => {
+    const withHidden = (id: number, hidden: unknown) => Object.defineProperty({ id }, 'hidden', { value: hidden });
+
+    // By default, non-enumerable properties are ignored
+    expect(equals(withHidden(1, 'a'), withHidden(1, 'b'))).toBe(true);
+
+    const comparator = createComparator({ includeNonEnumerable: true });
+    expectEqual(comparator, withHidden(1, 'a'), withHidden(1, 'a'));
+    expect(comparator.equals(withHidden(1, 'a'), withHidden(1, 'b'))).toBe(false);
+    expect(comparator.equals(withHidden(1, 'a'), { id: 1 })).toBe(false);
+    expect(comparator.equals(withHidden(1, 'a'), { id: 1, hidden: 'a' })).toBe(true);
+    expect(comparator.hash(withHidden(1, 'a'))).not.toBe(comparator.hash(withHidden(1, 'b')));
+
+    // Non-enumerable symbol keys are included only if symbols are
+    const tag = Symbol('tag');
+    const withTag = (value: string) => Object.defineProperty({ id: 1 }, tag, { value });
+    expect(comparator.equals(withTag('a'), withTag('b'))).toBe(true);
+
+    const both = createComparator({ includeNonEnumerable: true, includeSymbols: true });
+    expectEqual(both, withTag('a'), withTag('a'));
+    expect(both.equals(withTag('a'), withTag('b'))).toBe(false);
+    expect(both.hash(withTag('a'))).not.toBe(both.hash(withTag('b')));
+
+    // Built-ins are unaffected, e.g. arrays' `length` or regexes' `lastIndex`
+    expectEqual(comparator, [1, 2], [1, 2]);
+    const regex = /a/g;
+    regex.lastIndex = 1;
+    expectEqual(comparator, regex, /a/g);
+  });
+
+  test('plugs into ObjectMap with symbol keys', () => {
+    const tag = Symbol('tag');
+    const map = new ObjectMap<object, string>(undefined, createComparator({ includeSymbols: true }));
+    map.set({ id: 1, [tag]: 'a' }, 'a');
+    map.set({ id: 1, [tag]: 'b' }, 'b');
+    expect(map.size).toBe(2);
+    expect(map.get({ id: 1, [tag]: 'a' })).toBe('a');
+  });
+
+  test('ignorePrototypes', () => {
+    class Point {
+      constructor(public x: number, public y: number) { }
+    }
+
+    // By default, constructors must match
+    expect(equals(new Point(1, 2), { x: 1, y: 2 })).toBe(false);
+
+    const comparator = createComparator({ ignorePrototypes: true });
+    expectEqual(comparator, new Point(1, 2), { x: 1, y: 2 });
+    expectEqual(comparator, { p: new Point(1, 2) }, { p: { x: 1, y: 2 } });
+    expectEqual(comparator, Object.assign(Object.create(null), { x: 1 }), { x: 1 });
+    expect(comparator.equals(new Point(1, 2), { x: 1, y: 3 })).toBe(false);
+
+    // Built-in kinds are still told apart
+    class MyArray extends Array { }
+    expectEqual(comparator, MyArray.from([1, 2]), [1, 2]);
+    expect(comparator.equals([1, 2], { 0: 1, 1: 2 })).toBe(false);
+    expect(comparator.equals(new Set(), new Map())).toBe(false);
+    expect(comparator.equals(new Date(0), {})).toBe(false);
+    expect(comparator.equals(new Uint8Array([1]), new Int8Array([1]))).toBe(false);
+  });
+
+  test('undefinedAsAbsent', () => {
+    // By default, undefined-valued properties count
+    expect(equals({ a: 1, b: undefined }, { a: 1 })).toBe(false);
+
+    const comparator = createComparator({ undefinedAsAbsent: true });
+    expectEqual(comparator, { a: 1, b: undefined }, { a: 1 });
+    expectEqual(comparator, { a: 1, b: undefined }, { a: 1, c: undefined });
+    expectEqual(comparator, { nested: [{ a: undefined }] }, { nested: [{}] });
+    expect(comparator.equals({ a: 1, b: undefined }, { a: 1, b: null })).toBe(false);
+
+    // Array items are not affected
+    expect(comparator.equals([1, undefined], [1])).toBe(false);
+  });
+
+  test('objectIs', () => {
+    // By default, -0 and 0 are equal
+    expect(equals(-0, 0)).toBe(true);
+
+    const comparator = createComparator({ objectIs: true });
+    expect(comparator.equals(-0, 0)).toBe(false);
+    expect(comparator.equals({ a: [-0] }, { a: [0] })).toBe(false);
+    expect(comparator.hash(-0)).not.toBe(comparator.hash(0));
+    expectEqual(comparator, -0, -0);
+    expectEqual(comparator, 0, 0);
+    expectEqual(comparator, NaN, NaN);
+    expectEqual(comparator, { a: [1, -0] }, { a: [1, -0] });
+
+    const set = new ObjectSet([0, -0, { a: 0 }, { a: -0 }], comparator);
+    expect(set.size).toBe(4);
+    expect(set.has(-0)).toBe(true);
+    expect(set.has({ a: -0 })).toBe(true);
+  });
+
+  test('plugs into ObjectMap & ObjectSet', () => {
+    const comparator = createComparator({ ignoreKeys: ['updatedAt', '__typename'] });
+
+    const map = new ObjectMap<object, string>(undefined, comparator);
+    map.set({ id: 1, __typename: 'User', updatedAt: 1 }, 'a');
+    map.set({ id: 1, __typename: 'User', updatedAt: 2 }, 'b');
+    expect(map.size).toBe(1);
+    expect(map.get({ id: 1 })).toBe('b');
+
+    const set = new ObjectSet([{ id: 1, updatedAt: 1 }, { id: 1, updatedAt: 2 }, { id: 2, updatedAt: 1 }], comparator);
+    expect(set.size).toBe(2);
+  });
+});
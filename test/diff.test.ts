@@ -0,0 +1,110 @@
+import { expect, test, describe } from 'vitest';
+import { diff, equals, explainInequality } from '../src';
+
+describe('diff()', () => {
+  test('equal values have no differences', () => {
+    const values = [1, NaN, 'a', null, undefined, { a: [1, { b: 2 }] }, new Map([[{ k: 1 }, new Set([2])]]), new Date(0), /a/g];
+    for (const value of values) {
+      expect(diff(value, structuredClone(value))).toEqual([]);
+    }
+
+    const cyclic: any = { a: 1 };
+    cyclic.self = cyclic;
+    const other: any = { a: 1 };
+    other.self = other;
+    expect(diff(cyclic, other)).toEqual([]);
+  });
+
+  test('primitives', () => {
+    expect(diff(1, 2)).toEqual([{ path: [], kind: 'changed', a: 1, b: 2 }]);
+    expect(diff(1, '1')).toEqual([{ path: [], kind: 'type-mismatch', a: 1, b: '1' }]);
+    expect(diff(null, {})).toEqual([{ path: [], kind: 'type-mismatch', a: null, b: {} }]);
+  });
+
+  test('objects', () => {
+    expect(diff({ id: 1, tags: ['a'], removed: true }, { id: 1, tags: ['b'], name: 'x' })).toEqual([
+      { path: ['tags', 0], kind: 'changed', a: 'a', b: 'b' },
+      { path: ['removed'], kind: 'removed', a: true, b: undefined },
+      { path: ['name'], kind: 'added', a: undefined, b: 'x' }
+    ]);
+
+    class Point { constructor(public x: number) { } }
+    expect(diff({ p: new Point(1) }, { p: { x: 1 } })).toEqual([
+      { path: ['p'], kind: 'type-mismatch', a: new Point(1), b: { x: 1 } }
+    ]);
+  });
+
+  test('arrays', () => {
+    expect(diff([1, 2, 3], [1, 5])).toEqual([
+      { path: [1], kind: 'changed', a: 2, b: 5 },
+      { path: [2], kind: 'removed', a: 3, b: undefined }
+    ]);
+    expect(diff([1], [1, 2])).toEqual([{ path: [1], kind: 'added', a: undefined, b: 2 }]);
+  });
+
+  test('sets & maps', () => {
+    expect(diff(new Set([1, { a: 1 }]), new Set([{ a: 1 }, 2]))).toEqual([
+      { path: [1], kind: 'removed', a: 1, b: undefined },
+      { path: [2], kind: 'added', a: undefined, b: 2 }
+    ]);
+
+    const key = { id: 1 };
+    expect(diff(
+      new Map<unknown, unknown>([[key, 'a'], [{ id: 2 }, 'b'], ['x', 1]]),
+      new Map<unknown, unknown>([[key, 'c'], [{ id: 2 }, 'd'], ['y', 1]])
+    )).toEqual([
+      { path: [key], kind: 'changed', a: 'a', b: 'c' },
+      { path: [{ id: 2 }], kind: 'changed', a: 'b', b: 'd' },
+      { path: ['x'], kind: 'removed', a: 1, b: undefined },
+      { path: ['y'], kind: 'added', a: undefined, b: 1 }
+    ]);
+  });
+
+  test('dates, regexes & cycles', () => {
+    expect(diff({ d: new Date(0) }, { d: new Date(1) })).toEqual([
+      { path: ['d'], kind: 'changed', a: new Date(0), b: new Date(1) }
+    ]);
+    expect(diff(/a/g, /a/i)).toEqual([{ path: [], kind: 'changed', a: /a/g, b: /a/i }]);
+
+    const a: any = { child: {} };
+    a.child.parent = a;
+    const b: any = { child: {} };
+    b.child.parent = b.child;
+    expect(diff(a, b)).toEqual([{ path: ['child', 'parent'], kind: 'changed', a, b: b.child }]);
+  });
+
+  test('is empty iff the values are equal', () => {
+    const pairs: [unknown, unknown][] = [
+      [{ a: 1 }, { a: 1 }],
+      [{ a: 1 }, { a: 1, b: undefined }],
+      [[1, [2]], [1, [2]]],
+      [new Map([[{ k: 1 }, 1], [{ k: 1 }, 2]]), new Map([[{ k: 1 }, 2], [{ k: 1 }, 1]])],
+      [new Set([{ a: 1 }]), new Set([{ a: 2 }])],
+      [new Uint8Array([1, 2]), new Uint8Array([1, 2])],
+      [new Uint8Array([1, 2]), new Uint8Array([1, 3])],
+      [0, -0]
+    ];
+    for (const [a, b] of pairs) {
+      expect(diff(a, b).length === 0).toBe(equals(a, b));
+    }
+  });
+});
+
+describe('explainInequality()', () => {
+  test('formats each difference on a line', () => {
+    expect(explainInequality(
+      { id: 1, tags: ['a'], 'odd key': 1, created: new Date(0), nested: { x: 1 } },
+      { id: '1', tags: ['b', 'c'], created: new Date(0), nested: [1] }
+    )).toBe([
+      '$.id: type mismatch, 1 vs. "1"',
+      '$.tags[0]: changed from "a" to "b"',
+      '$.tags[1]: added "c"',
+      '$["odd key"]: removed 1',
+      '$.nested: type mismatch, Object {x} vs. Array(1)'
+    ].join('\n'));
+  });
+
+  test('equal values', () => {
+    expect(explainInequality({ a: 1 }, { a: 1 })).toBe('The values are equal');
+  });
+});
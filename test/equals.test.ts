@@ -1,5 +1,5 @@
 import { expect, test, describe } from 'vitest';
-import { equals } from '../src';
+import { ObjectMap, createEquals, diff, equals, hash } from '../src';
 
 // Tests shamefully stolen from `fast-deep-equal`'s tests
 
@@ -166,6 +166,108 @@ describe('equals()', test => {
     expect(equals(/foo/, {})).toBe(false);
   });
 
+  test('Sets and Maps', () => {
+    // Equal sets (different order)
+    expect(equals(new Set([1, 2, 3]), new Set([3, 2, 1]))).toBe(true);
+
+    // Not equal sets
+    expect(equals(new Set([1, 2, 3]), new Set([1, 2, 4]))).toBe(false);
+    expect(equals(new Set([1, 2, 3]), new Set([1, 2]))).toBe(false);
+
+    // Set members are compared by value
+    expect(equals(new Set([{ a: 1 }, { b: 2 }]), new Set([{ b: 2 }, { a: 1 }]))).toBe(true);
+    expect(equals(new Set([{ a: 1 }, { b: 2 }]), new Set([{ a: 1 }, { b: 3 }]))).toBe(false);
+
+    // Each member is matched by a distinct member
+    expect(equals(new Set([{ a: 1 }, { a: 1 }, { b: 2 }]), new Set([{ a: 1 }, { b: 2 }, { b: 2 }]))).toBe(false);
+
+    // Equal maps (different order)
+    expect(equals(new Map([['a', 1], ['b', 2]]), new Map([['b', 2], ['a', 1]]))).toBe(true);
+
+    // Not equal maps
+    expect(equals(new Map([['a', 1], ['b', 2]]), new Map([['a', 1], ['b', 3]]))).toBe(false);
+    expect(equals(new Map([['a', 1], ['b', 2]]), new Map([['a', 1], ['c', 2]]))).toBe(false);
+
+    // Map keys are compared by value
+    expect(equals(new Map([[{ id: 1 }, 'a']]), new Map([[{ id: 1 }, 'a']]))).toBe(true);
+    expect(equals(new Map([[{ id: 1 }, 'a']]), new Map([[{ id: 1 }, 'b']]))).toBe(false);
+    expect(equals(new Map([[{ id: 1 }, 'a']]), new Map([[{ id: 2 }, 'a']]))).toBe(false);
+  });
+
+  test('Binary data', () => {
+    // Equal typed arrays
+    expect(equals(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2, 3]))).toBe(true);
+    expect(equals(new Float32Array([0.5, 1.5]), new Float32Array([0.5, 1.5]))).toBe(true);
+
+    // Not equal typed arrays (different values)
+    expect(equals(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2, 4]))).toBe(false);
+
+    // Not equal typed arrays (different length)
+    expect(equals(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2]))).toBe(false);
+
+    // Typed arrays with the same bytes but different element types are not equal
+    expect(equals(new Uint8Array([1, 2]), new Int8Array([1, 2]))).toBe(false);
+
+    // Typed arrays are compared byte-wise, so NaNs with the same bits are equal and 0 & -0 are not
+    expect(equals(new Float64Array([NaN]), new Float64Array([NaN]))).toBe(true);
+    expect(equals(new Float64Array([0]), new Float64Array([-0]))).toBe(false);
+
+    // Typed array and array are not equal
+    expect(equals(new Uint8Array([1, 2, 3]), [1, 2, 3])).toBe(false);
+
+    // Views are compared by their own range of the buffer
+    const buffer = new Uint8Array([0, 1, 2, 3, 0]).buffer;
+    expect(equals(new Uint8Array(buffer, 1, 3), new Uint8Array([1, 2, 3]))).toBe(true);
+    expect(equals(new DataView(buffer, 1, 3), new DataView(new Uint8Array([1, 2, 3]).buffer))).toBe(true);
+    expect(equals(new DataView(buffer), new DataView(new Uint8Array([1, 2, 3]).buffer))).toBe(false);
+
+    // ArrayBuffers
+    expect(equals(new Uint8Array([1, 2]).buffer, new Uint8Array([1, 2]).buffer)).toBe(true);
+    expect(equals(new Uint8Array([1, 2]).buffer, new Uint8Array([2, 1]).buffer)).toBe(false);
+
+    // SharedArrayBuffers
+    const shared1 = new SharedArrayBuffer(2);
+    const shared2 = new SharedArrayBuffer(2);
+    expect(equals(shared1, shared2)).toBe(true);
+    new Uint8Array(shared1)[0] = 1;
+    expect(equals(shared1, shared2)).toBe(false);
+  });
+
+  test('Value objects', () => {
+    class Money {
+      #cents: number;
+      constructor(cents: number) {
+        this.#cents = cents;
+      }
+      [ObjectMap.hash]() {
+        return this.#cents;
+      }
+      [ObjectMap.equals](other: unknown) {
+        return other instanceof Money && other.#cents === this.#cents;
+      }
+    }
+
+    // Compared by their own equality, even though they have no visible properties
+    expect(equals(new Money(100), new Money(100))).toBe(true);
+    expect(equals(new Money(100), new Money(200))).toBe(false);
+    expect(equals({ price: new Money(100) }, { price: new Money(100) })).toBe(true);
+    expect(equals(new Money(100), {})).toBe(false);
+    expect(equals({}, new Money(100))).toBe(false);
+
+    // Immutable.js-style value objects
+    class Point {
+      constructor(readonly x: number, readonly y: number, readonly label: string) { }
+      hashCode() {
+        return this.x * 31 + this.y;
+      }
+      equals(other: unknown) {
+        return other instanceof Point && other.x === this.x && other.y === this.y;
+      }
+    }
+    expect(equals(new Point(1, 2, 'a'), new Point(1, 2, 'b'))).toBe(true);
+    expect(equals(new Point(1, 2, 'a'), new Point(2, 1, 'a'))).toBe(false);
+  });
+
   test('Functions', () => {
     function func1() { }
     function func2() { }
@@ -177,6 +279,99 @@ describe('equals()', test => {
     expect(equals(func1, func2)).toBe(false);
   });
 
+  test('Cyclic structures', () => {
+    type Node = { id: number, parent?: Node, children: Node[] };
+    const tree = (): Node => {
+      const root: Node = { id: 1, children: [] };
+      root.children.push({ id: 2, parent: root, children: [] });
+      return root;
+    };
+
+    // Isomorphic cyclic structures are equal
+    expect(equals(tree(), tree())).toBe(true);
+
+    // Self-referencing objects are equal
+    const a: any = { id: 1 };
+    a.self = a;
+    const b: any = { id: 1 };
+    b.self = b;
+    expect(equals(a, b)).toBe(true);
+
+    // Cyclic structures with different values are not equal
+    const c: any = { id: 2 };
+    c.self = c;
+    expect(equals(a, c)).toBe(false);
+
+    // Cyclic structures that refer back to different positions are not equal
+    const d: any = { id: 1, self: { id: 1 } };
+    d.self.self = d.self;
+    expect(equals(a, d)).toBe(false);
+    expect(equals(d, a)).toBe(false);
+
+    // A back-reference on one side only is not equal to the object it refers to, even if it's the same object
+    // (consistently with `hash`, which hashes back-references by their position)
+    const e: any = {};
+    e.x = e;
+    const f = { x: e };
+    expect(equals(e, f)).toBe(false);
+    expect(equals(f, e)).toBe(false);
+    expect(diff(e, f)).not.toEqual([]);
+    expect(hash(e)).not.toBe(hash(f));
+
+    // The same, with a set containing itself, and a map keyed by itself
+    const g = new Set<unknown>();
+    g.add(g);
+    const h = new Set([g]);
+    expect(equals(g, h)).toBe(false);
+    expect(equals(h, g)).toBe(false);
+    expect(hash(g)).not.toBe(hash(h));
+
+    const m = new Map<unknown, number>();
+    m.set(m, 1);
+    const n = new Map([[m, 1]]);
+    expect(equals(m, n)).toBe(false);
+    expect(equals(n, m)).toBe(false);
+    expect(hash(m)).not.toBe(hash(n));
+
+    // Shared references that are not cycles are still equal
+    const shared = { id: 1 };
+    expect(equals({ x: shared, y: shared }, { x: shared, y: shared })).toBe(true);
+    expect(equals([shared, shared], [shared, { id: 1 }])).toBe(true);
+    expect(equals(new Set([shared, 1]), new Set([1, shared]))).toBe(true);
+    expect(equals(new Map([[shared, shared]]), new Map([[shared, { id: 1 }]]))).toBe(true);
+
+    // Cyclic arrays and maps
+    const arr1: unknown[] = [1];
+    arr1.push(arr1);
+    const arr2: unknown[] = [1];
+    arr2.push(arr2);
+    expect(equals(arr1, arr2)).toBe(true);
+
+    const map1 = new Map<string, unknown>();
+    map1.set('self', map1);
+    const map2 = new Map<string, unknown>();
+    map2.set('self', map2);
+    expect(equals(map1, map2)).toBe(true);
+  });
+
+  test('Identity mode', () => {
+    const identityEquals = createEquals({ identity: true });
+    class Empty { }
+    const empty = new Empty();
+
+    // Opaque objects are compared by reference
+    expect(equals(new Empty(), new Empty())).toBe(true);
+    expect(identityEquals(new Empty(), new Empty())).toBe(false);
+    expect(identityEquals(empty, empty)).toBe(true);
+    expect(identityEquals({ a: empty }, { a: empty })).toBe(true);
+    expect(identityEquals(new WeakMap(), new WeakMap())).toBe(false);
+    expect(identityEquals(Promise.resolve(1), Promise.resolve(1))).toBe(false);
+
+    // Other objects are compared by value
+    expect(identityEquals({ a: [1] }, { a: [1] })).toBe(true);
+    expect(identityEquals(new Set([1]), new Set([1]))).toBe(true);
+  });
+
   test('Sample objects', () => {
     // Big object
     expect(equals(
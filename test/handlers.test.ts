@@ -0,0 +1,120 @@
+import { expect, test, describe } from 'vitest';
+import { ObjectMap, ObjectSet, createEquals, createHash, typeHandler, TypeHandler } from '../src';
+
+// Stands in for a third-party class that can't be changed
+class Decimal {
+  private digits: string[];
+  constructor(value: string) {
+    this.digits = value.split('');
+  }
+  toString() {
+    return this.digits.join('');
+  }
+}
+
+// Another instance with the same value, but a different (irrelevant) internal state
+function decimal(value: string) {
+  const d = new Decimal(value);
+  (d as any).cache = Math.random();
+  return d;
+}
+
+describe('typeHandler()', () => {
+  test('compares and hashes instances by key', () => {
+    const handler = typeHandler(Decimal, d => d.toString());
+    expect(handler.test(decimal('1.5'))).toBe(true);
+    expect(handler.test('1.5')).toBe(false);
+    expect(handler.test({})).toBe(false);
+
+    expect(handler.equals(decimal('1.5'), decimal('1.5'))).toBe(true);
+    expect(handler.equals(decimal('1.5'), decimal('2.5'))).toBe(false);
+    expect(handler.hash(decimal('1.5'))).toBe(handler.hash(decimal('1.5')));
+  });
+});
+
+describe('createEquals() & createHash() with handlers', () => {
+  const handlers = [typeHandler(Decimal, d => d.toString())];
+  const equals = createEquals({ handlers });
+  const hash = createHash({ handlers });
+
+  test('applies handlers at the top level', () => {
+    expect(equals(decimal('1.5'), decimal('1.5'))).toBe(true);
+    expect(equals(decimal('1.5'), decimal('2.5'))).toBe(false);
+    expect(hash(decimal('1.5'))).toBe(hash(decimal('1.5')));
+  });
+
+  test('applies handlers at any depth', () => {
+    const a = {
+      price: decimal('1.5'),
+      history: [decimal('1'), decimal('2')],
+      byDate: new Map([[new Date(2023, 0, 1), decimal('1')]]),
+      tags: new Set([decimal('3')]),
+    };
+    const b = {
+      price: decimal('1.5'),
+      history: [decimal('1'), decimal('2')],
+      byDate: new Map([[new Date(2023, 0, 1), decimal('1')]]),
+      tags: new Set([decimal('3')]),
+    };
+
+    expect(equals(a, b)).toBe(true);
+    expect(hash(a)).toBe(hash(b));
+
+    expect(equals(a, { ...b, price: decimal('2') })).toBe(false);
+    expect(equals(a, { ...b, tags: new Set([decimal('4')]) })).toBe(false);
+  });
+
+  test('does not match handled and unhandled values', () => {
+    expect(equals(decimal('1.5'), '1.5')).toBe(false);
+    expect(equals('1.5', decimal('1.5'))).toBe(false);
+    expect(equals(decimal('1.5'), { digits: ['1', '.', '5'] })).toBe(false);
+  });
+
+  test('checks handlers in order', () => {
+    const caseInsensitive: TypeHandler<string> = {
+      test: value => typeof value === 'string',
+      equals: (a, b) => a.toLowerCase() === b.toLowerCase(),
+      hash: value => createHash()(value.toLowerCase()),
+    };
+    const never: TypeHandler<string> = {
+      test: value => typeof value === 'string',
+      equals: () => false,
+      hash: () => 0,
+    };
+
+    const equals = createEquals({ handlers: [caseInsensitive, never] });
+    expect(equals({ name: 'Foo' }, { name: 'FOO' })).toBe(true);
+  });
+
+  test('plugs into ObjectMap & ObjectSet', () => {
+    const map = new ObjectMap<{ price: Decimal }, string>(undefined, { equals, hash });
+    map.set({ price: decimal('1.5') }, 'a');
+    map.set({ price: decimal('1.5') }, 'b');
+    expect(map.size).toBe(1);
+    expect(map.get({ price: decimal('1.5') })).toBe('b');
+
+    const set = new ObjectSet<Decimal>([decimal('1'), decimal('1'), decimal('2')], { equals, hash });
+    expect(set.size).toBe(2);
+    expect(set.has(decimal('2'))).toBe(true);
+  });
+
+  test('applies handlers to values only, not to the hashes of their parts', () => {
+    // Collapses all numbers - which mustn't affect the hashes of object keys, dates and other built-ins
+    const zero: TypeHandler<number> = { test: x => typeof x === 'number', equals: () => true, hash: () => 0 };
+    const hash = createHash({ handlers: [zero] });
+    expect(hash({ a: 'x' })).not.toBe(hash({ b: 'x' }));
+    expect(hash({ a: 'x' })).not.toBe(hash({ a: 'y' }));
+    expect(hash({ a: 1 })).toBe(hash({ a: 2 }));
+    expect(hash(new Date(1))).not.toBe(hash(new Date(2)));
+    expect(hash(/a/)).not.toBe(hash(/b/));
+    expect(hash(new Set(['a']))).not.toBe(hash(new Set(['b'])));
+
+    const map = new ObjectMap<{ name: string }, number>(undefined, { equals: createEquals({ handlers: [zero] }), hash });
+    for (let i = 0; i < 100; i++) {
+      map.set({ name: String(i) }, i);
+    }
+    const hashes = new Set([...map.keys()].map(key => hash(key)));
+    expect(hashes.size).toBe(100);
+    expect(map.get({ name: '50' })).toBe(50);
+  });
+});
@@ -1,5 +1,7 @@
 import { expect, test, describe } from 'vitest';
-import { hash } from '../src/hash';
+import { hash, createHash, createSeededHash, randomSeed, Hasher } from '../src/hash';
+import { equals, createEquals } from '../src/equals';
+import { hashSymbol, equalsSymbol } from '../src/protocol';
 
 describe('hash()', () => {
   test('hashes strings', () => {
@@ -55,4 +57,196 @@ describe('hash()', () => {
     const result = hash(input);
     expect(typeof result).toBe('number');
   });
-});
\ No newline at end of file
+
+  test('hashes cyclic structures', () => {
+    const a: any = { id: 1, children: [] };
+    a.children.push({ id: 2, parent: a });
+    const b: any = { id: 1, children: [] };
+    b.children.push({ id: 2, parent: b });
+
+    expect(typeof hash(a)).toBe('number');
+    expect(hash(a)).toBe(hash(b));
+
+    const c: any = [1];
+    c.push(c);
+    expect(typeof hash(c)).toBe('number');
+  });
+
+  test('is consistent with equals()', () => {
+    const values = [
+      { a: 1, b: [1, 2, { c: '3' }] },
+      [1, 'a', null, undefined],
+    ];
+    for (const value of values) {
+      const copy = structuredClone(value);
+      expect(equals(value, copy)).toBe(true);
+      expect(hash(value)).toBe(hash(copy));
+    }
+  });
+
+  test('hashes dates by their time value', () => {
+    expect(hash(new Date('2023-11-25T21:36:48.362Z'))).toBe(hash(new Date('2023-11-25T21:36:48.362Z')));
+    expect(hash(new Date('2023-11-25T21:36:48.362Z'))).not.toBe(hash(new Date('2023-01-01T00:00:00.000Z')));
+  });
+
+  test('hashes regexes by their source and flags', () => {
+    expect(hash(/foo/g)).toBe(hash(/foo/g));
+    expect(hash(/foo/)).not.toBe(hash(/bar/));
+    expect(hash(/foo/)).not.toBe(hash(/foo/i));
+  });
+
+  test('hashes sets by their members, regardless of order', () => {
+    expect(hash(new Set([1, 2, 3]))).toBe(hash(new Set([3, 1, 2])));
+    expect(hash(new Set([1, 2, 3]))).not.toBe(hash(new Set([1, 2, 4])));
+    expect(hash(new Set())).not.toBe(hash(new Set([0])));
+  });
+
+  test('hashes maps by their entries, regardless of order', () => {
+    expect(hash(new Map([['a', 1], ['b', 2]]))).toBe(hash(new Map([['b', 2], ['a', 1]])));
+    expect(hash(new Map([['a', 1], ['b', 2]]))).not.toBe(hash(new Map([['a', 2], ['b', 1]])));
+    expect(hash(new Map([['a', 1]]))).not.toBe(hash(new Map([['a', 1], ['b', 2]])));
+  });
+
+  test('hashes binary data by its bytes', () => {
+    expect(hash(new Uint8Array([1, 2, 3]))).toBe(hash(new Uint8Array([1, 2, 3])));
+    expect(hash(new Uint8Array([1, 2, 3]))).not.toBe(hash(new Uint8Array([1, 2, 4])));
+    expect(hash(new Uint8Array([1, 2]))).not.toBe(hash(new Int8Array([1, 2])));
+    expect(hash(new Float32Array([0.5, 1.5]))).toBe(hash(new Float32Array([0.5, 1.5])));
+
+    const buffer = new Uint8Array([0, 1, 2, 3, 0]).buffer;
+    expect(hash(new Uint8Array(buffer, 1, 3))).toBe(hash(new Uint8Array([1, 2, 3])));
+    expect(hash(new DataView(buffer, 1, 3))).toBe(hash(new DataView(new Uint8Array([1, 2, 3]).buffer)));
+    expect(hash(new Uint8Array([1, 2]).buffer)).toBe(hash(new Uint8Array([1, 2]).buffer));
+    expect(hash(new Uint8Array([1, 2]).buffer)).not.toBe(hash(new Uint8Array([2, 1]).buffer));
+  });
+
+  test('hashes value objects by their own hash code', () => {
+    class Id {
+      #id: string;
+      constructor(id: string) {
+        this.#id = id;
+      }
+      [hashSymbol]() {
+        return hash(this.#id);
+      }
+      [equalsSymbol](other: unknown) {
+        return other instanceof Id && other.#id === this.#id;
+      }
+    }
+    expect(hash(new Id('a'))).toBe(hash('a'));
+    expect(hash(new Id('a'))).not.toBe(hash(new Id('b')));
+    expect(hash({ id: new Id('a') })).toBe(hash({ id: new Id('a') }));
+
+    const immutableStyle = { hashCode: () => 42, equals: () => true };
+    expect(hash(immutableStyle)).toBe(42);
+  });
+
+  test('hashes uninspectable values by identity, in identity mode', () => {
+    const identityHash = createHash({ identity: true });
+    const identityEquals = createEquals({ identity: true });
+
+    // Symbols
+    const a = Symbol('a');
+    expect(hash(a)).toBe(hash(Symbol('a')));
+    expect(identityHash(a)).toBe(identityHash(a));
+    expect(identityHash(a)).not.toBe(identityHash(Symbol('a')));
+    expect(identityHash(Symbol.for('a'))).toBe(identityHash(Symbol.for('a')));
+
+    // Functions
+    const makeFn = () => () => 1;
+    const fn = makeFn();
+    expect(hash(fn)).toBe(hash(makeFn()));
+    expect(identityHash(fn)).toBe(identityHash(fn));
+    expect(identityHash(fn)).not.toBe(identityHash(makeFn()));
+
+    // Opaque objects
+    class Empty { }
+    const opaque = [
+      [new WeakMap(), new WeakMap()],
+      [new WeakSet(), new WeakSet()],
+      [Promise.resolve(), Promise.resolve()],
+      [new Empty(), new Empty()],
+    ];
+    for (const [value, other] of opaque) {
+      expect(hash(value)).toBe(hash(other));
+      expect(identityHash(value)).toBe(identityHash(value));
+      expect(identityHash(value)).not.toBe(identityHash(other));
+      expect(identityEquals(value, value)).toBe(true);
+      expect(identityEquals(value, other)).toBe(false);
+    }
+
+    // Other values are still hashed by their contents
+    expect(identityHash({ a: [1, 2] })).toBe(identityHash({ a: [1, 2] }));
+    expect(identityHash(new Date(0))).toBe(identityHash(new Date(0)));
+    expect(identityHash({ fn, a })).toBe(identityHash({ fn, a }));
+    expect(identityHash({ fn, a })).not.toBe(identityHash({ fn: makeFn(), a }));
+  });
+
+  test('seeded hashes', () => {
+    const values = ['test', 123, { a: 1, b: [1, 2] }, new Set(['a']), new Uint8Array([1, 2])];
+    const seeded = createSeededHash(42);
+    const otherSeed = createSeededHash(43);
+
+    for (const value of values) {
+      // Deterministic for the same seed
+      expect(seeded(value)).toBe(createSeededHash(42)(value));
+      expect(seeded(value)).toBe(createHash({ seed: 42 })(value));
+      // Differs between seeds
+      expect(seeded(value)).not.toBe(otherSeed(value));
+    }
+
+    // Seed 0 is the default
+    expect(createSeededHash(0)({ a: 'b' })).toBe(hash({ a: 'b' }));
+    expect(seeded({ a: 'b' })).not.toBe(hash({ a: 'b' }));
+  });
+
+  test('randomSeed()', () => {
+    const seed = randomSeed();
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThan(2 ** 32);
+  });
+});
+
+describe('Hasher', () => {
+  test('digest is identical to the hash of an array of the fed values', () => {
+    const values = ['a', 1, null, undefined, { b: [1, 2] }, new Date(0), new Map([['c', new Set([3])]])];
+
+    const hasher = new Hasher();
+    for (const value of values) {
+      hasher.update(value);
+    }
+    expect(hasher.digest()).toBe(hash(values));
+
+    expect(new Hasher().digest()).toBe(hash([]));
+    expect(new Hasher().update('a').update('b').digest()).toBe(hash(['a', 'b']));
+    expect(new Hasher().update('a').update('b').digest()).not.toBe(hash(['b', 'a']));
+  });
+
+  test('can be digested repeatedly', () => {
+    const hasher = new Hasher().update(1);
+    expect(hasher.digest()).toBe(hash([1]));
+    hasher.update(2);
+    expect(hasher.digest()).toBe(hash([1, 2]));
+  });
+
+  test('respects hash options', () => {
+    const digest = new Hasher({ seed: 42 }).update('a').update({ b: 1 }).digest();
+    expect(digest).toBe(createHash({ seed: 42 })(['a', { b: 1 }]));
+    expect(digest).not.toBe(hash(['a', { b: 1 }]));
+  });
+
+  test('hashes cycles at the same positions', () => {
+    const node: any = { id: 1 };
+    node.self = node;
+    expect(new Hasher().update(node).update(node).digest()).toBe(hash([node, node]));
+  });
+
+  test('works as a custom hash function', () => {
+    type Key = { tenantId: string, date: Date, tags: string[] };
+    const keyHash = (key: Key) => new Hasher().update(key.tenantId).update(key.date).update(key.tags).digest();
+    const key: Key = { tenantId: 't1', date: new Date(0), tags: ['a'] };
+    expect(keyHash(key)).toBe(hash([key.tenantId, key.date, key.tags]));
+    expect(keyHash(key)).toBe(keyHash(structuredClone(key)));
+  });
+});
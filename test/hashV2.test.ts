@@ -0,0 +1,86 @@
+import { expect, test, describe } from 'vitest';
+import { hash, hashV2, hashV2Hex, equals } from '../src';
+
+const cyclic: any = { id: 1 };
+cyclic.self = cyclic;
+
+// These vectors freeze the algorithm - they must never change.
+// Any change to the algorithm should be released as a new version instead.
+const vectors: [unknown, number, string][] = [
+  ['', 173656096277957, '9ba09df075ee85c5'],
+  ['1', 3022157732035086, '616abca2ee12ba0e'],
+  [1, 4587871221431166, '50f04ca5026dbb7e'],
+  [1n, 6758567559947584, 'b37802e1a299e540'],
+  [-0, 3269608717578653, '13eb9db11a2a719d'],
+  [NaN, 7157266038087658, '67196d7edbc35fea'],
+  [true, 2988174613821224, '8c0a9dba9e623728'],
+  [false, 2082698615397641, 'c68766340f251d09'],
+  [undefined, 7871089079440285, '9f1bf6b6bc93539d'],
+  [null, 243530538881798, '4720dd7d5f431306'],
+  [[1, 2, 3], 5709031831709734, '193448558e572826'],
+  [{ a: 1, b: 'x' }, 4201087978856873, 'e00eecde04a661a9'],
+  [new Date(0), 2902903005302760, '1bea502cc672cfe8'],
+  [/ab+c/gi, 903947135571512, 'f983362297e95638'],
+  [new Set([1, 2]), 3437317568023869, '176c3638dc9f4d3d'],
+  [new Map([['a', 1]]), 3060244503385472, 'b96adf46b28cd580'],
+  [new Uint8Array([1, 2, 3]), 3150036023366000, '43eb30f0ea33d170'],
+  [cyclic, 2299243048061224, '6d882b263d21c928'],
+];
+
+describe('hashV2()', () => {
+  test('matches the test vectors', () => {
+    for (const [value, expected] of vectors) {
+      expect(hashV2(value)).toBe(expected);
+    }
+  });
+
+  test('is available as hash.v2', () => {
+    expect(hash.v2).toBe(hashV2);
+    expect(hash.v2.hex).toBe(hashV2Hex);
+  });
+
+  test('tags values by type', () => {
+    expect(hashV2(1)).not.toBe(hashV2('1'));
+    expect(hashV2(1)).not.toBe(hashV2(1n));
+    expect(hashV2('1')).not.toBe(hashV2(1n));
+    expect(hashV2(null)).not.toBe(hashV2('null'));
+    expect(hashV2(undefined)).not.toBe(hashV2('undefined'));
+    expect(hashV2(true)).not.toBe(hashV2('true'));
+    expect(hashV2([1])).not.toBe(hashV2({ 0: 1 }));
+    expect(hashV2(new Date(0))).not.toBe(hashV2(0));
+    expect(hashV2(['a', 'b'])).not.toBe(hashV2(['ab']));
+  });
+
+  test('is consistent with equals()', () => {
+    const pairs: [unknown, unknown][] = [
+      [0, -0],
+      [{ a: 1, b: 2 }, { b: 2, a: 1 }],
+      [new Set([1, 2, 3]), new Set([3, 2, 1])],
+      [new Map([['a', 1], ['b', 2]]), new Map([['b', 2], ['a', 1]])],
+      [new Date(100), new Date(100)],
+    ];
+    for (const [a, b] of pairs) {
+      expect(equals(a, b)).toBe(true);
+      expect(hashV2(a)).toBe(hashV2(b));
+    }
+  });
+
+  test('throws for symbols and functions', () => {
+    expect(() => hashV2(Symbol('a'))).toThrow(TypeError);
+    expect(() => hashV2({ fn: () => { } })).toThrow(TypeError);
+  });
+});
+
+describe('hashV2Hex()', () => {
+  test('matches the test vectors', () => {
+    for (const [value, , expected] of vectors) {
+      expect(hashV2Hex(value)).toBe(expected);
+    }
+  });
+
+  test('returns a fixed-width digest', () => {
+    for (const [value] of vectors) {
+      expect(hashV2Hex(value)).toMatch(/^[0-9a-f]{16}$/);
+    }
+  });
+});
@@ -0,0 +1,313 @@
+import { expect, describe, test } from 'vitest';
+import { ObjectMap, ObjectSet } from '../src';
+
+/**
+ * Conformance of iteration under mutation with native `Map`s & `Set`s (ECMAScript spec, 24.1.5.1 CreateMapIterator &
+ * 24.2.5.1 CreateSetIterator): entries deleted before they're visited are skipped, entries added during iteration
+ * (including deleted & re-added ones) are visited, and an iterator that's done stays done.
+ * Each scenario runs against a native collection and against ours, whose keys are objects (`{ id }`) rather than
+ * numbers, and the visited ids (& values) must be the same.
+ */
+
+interface MapScenario {
+  name: string;
+  entries: number;
+  /**
+   * Iterates & mutates the collection; returns what was visited, as strings.
+   */
+  run: (map: Map<unknown, number>, key: (id: number) => unknown, id: (key: unknown) => number) => string[];
+}
+
+const visit = (map: Map<unknown, number>, id: (key: unknown) => number, onVisit: (i: number, key: unknown) => void): string[] => {
+  const visited: string[] = [];
+  for (const [key, value] of map) {
+    visited.push(`${id(key)}:${value}`);
+    onVisit(visited.length - 1, key);
+  }
+  return visited;
+};
+
+const mapScenarios: MapScenario[] = [
+  {
+    name: 'deleting entries that were not visited yet',
+    entries: 10,
+    run: (map, key, id) => visit(map, id, i => {
+      if (i === 0) {
+        map.delete(key(1));
+        map.delete(key(5));
+        map.delete(key(9));
+      }
+    })
+  },
+  {
+    name: 'deleting the current entry',
+    entries: 10,
+    run: (map, key, id) => visit(map, id, (_, current) => {
+      map.delete(current);
+    })
+  },
+  {
+    name: 'deleting the current & the next entries',
+    entries: 10,
+    run: (map, key, id) => visit(map, id, (_, current) => {
+      map.delete(current);
+      map.delete(key(id(current) + 1));
+    })
+  },
+  {
+    name: 'deleting visited entries',
+    entries: 10,
+    run: (map, key, id) => visit(map, id, i => {
+      if (i === 5) {
+        for (let j = 0; j < 5; j++) {
+          map.delete(key(j));
+        }
+      }
+    })
+  },
+  {
+    name: 'adding entries',
+    entries: 3,
+    run: (map, key, id) => visit(map, id, (_, current) => {
+      if (id(current) < 10) {
+        map.set(key(id(current) + 100), id(current));
+      }
+    })
+  },
+  {
+    name: 'adding many entries, so that the collection grows',
+    entries: 2,
+    run: (map, key, id) => visit(map, id, i => {
+      if (i === 0) {
+        for (let j = 100; j < 400; j++) {
+          map.set(key(j), j);
+        }
+      }
+    })
+  },
+  {
+    name: 're-adding deleted entries',
+    entries: 5,
+    run: (map, key, id) => visit(map, id, (i, current) => {
+      if (i < 5) {
+        map.delete(current);
+        map.set(key(id(current)), -id(current));
+      }
+    })
+  },
+  {
+    name: 'deleting & re-adding entries that were not visited yet',
+    entries: 5,
+    run: (map, key, id) => visit(map, id, i => {
+      if (i === 0) {
+        map.delete(key(2));
+        map.set(key(2), 20);
+      }
+    })
+  },
+  {
+    name: 'updating values of entries',
+    entries: 5,
+    run: (map, key, id) => visit(map, id, i => {
+      if (i === 0) {
+        map.set(key(0), 100);
+        map.set(key(3), 300);
+      }
+    })
+  },
+  {
+    name: 'deleting the last entry, then adding entries',
+    entries: 5,
+    run: (map, key, id) => visit(map, id, (i, current) => {
+      if (id(current) === 4) {
+        map.delete(current);
+        map.set(key(5), 5);
+        map.set(key(6), 6);
+      }
+    })
+  },
+  {
+    name: 'deleting all entries, then adding entries',
+    entries: 5,
+    run: (map, key, id) => visit(map, id, i => {
+      if (i === 1) {
+        for (let j = 0; j < 5; j++) {
+          map.delete(key(j));
+        }
+        map.set(key(10), 10);
+      }
+    })
+  },
+  {
+    name: 'deleting most entries & adding some, repeatedly',
+    entries: 200,
+    run: (map, key, id) => visit(map, id, (i, current) => {
+      if (i % 10 === 0 && i < 1000) {
+        // Delete the next entries, so that deletions pile up before the current position
+        for (let j = 1; j < 9; j++) {
+          map.delete(key(id(current) + j));
+        }
+        map.set(key(id(current) + 1000), i);
+      }
+    })
+  },
+  {
+    name: 'clearing',
+    entries: 5,
+    run: (map, key, id) => visit(map, id, i => {
+      if (i === 2) {
+        map.clear();
+      }
+    })
+  },
+  {
+    name: 'clearing, then adding entries',
+    entries: 5,
+    run: (map, key, id) => visit(map, id, i => {
+      if (i === 2) {
+        map.clear();
+        map.set(key(10), 10);
+        map.set(key(11), 11);
+      }
+    })
+  },
+  {
+    name: 'forEach()',
+    entries: 5,
+    run: (map, key, id) => {
+      const visited: string[] = [];
+      map.forEach((value, k) => {
+        visited.push(`${id(k)}:${value}`);
+        map.delete(key(id(k) + 1));
+        if (id(k) === 4) {
+          map.set(key(7), 7);
+        }
+      });
+      return visited;
+    }
+  },
+  {
+    name: 'keys() & values()',
+    entries: 5,
+    run: (map, key, id) => {
+      const visited: string[] = [];
+      for (const k of map.keys()) {
+        visited.push(`key ${id(k)}`);
+        map.delete(key(id(k) + 1));
+      }
+      map.set(key(20), 20);
+      for (const value of map.values()) {
+        visited.push(`value ${value}`);
+        if (value === 20) {
+          map.set(key(21), 21);
+        }
+      }
+      return visited;
+    }
+  },
+  {
+    name: 'iterators created before entries are added',
+    entries: 2,
+    run: (map, key, id) => {
+      const iterator = map.keys();
+      map.set(key(10), 10);
+      map.delete(key(0));
+      return [...iterator].map(k => String(id(k)));
+    }
+  },
+  {
+    name: 'iterators that are done stay done',
+    entries: 2,
+    run: (map, key, id) => {
+      const iterator = map.keys();
+      const visited = [...iterator].map(k => String(id(k)));
+      map.set(key(10), 10);
+      visited.push(String(iterator.next().done));
+      return visited;
+    }
+  },
+  {
+    name: 'concurrent iterators',
+    entries: 6,
+    run: (map, key, id) => {
+      const a = map.keys();
+      const b = map.keys();
+      const visited: string[] = [];
+      for (let i = 0; i < 10; i++) {
+        const next = (i % 2 ? a : b).next();
+        visited.push(next.done ? 'done' : String(id(next.value)));
+        if (!next.done) {
+          map.delete(next.value);
+          map.delete(key(id(next.value) + 1));
+          map.set(key(id(next.value) + 100), i);
+        }
+      }
+      return visited;
+    }
+  }
+];
+
+const objectKey = (id: number) => ({ id });
+const objectId = (key: unknown) => (key as { id: number }).id;
+
+function runMapScenario({ entries, run }: MapScenario, map: Map<unknown, number>, key: (id: number) => unknown, id: (key: unknown) => number): string[] {
+  for (let i = 0; i < entries; i++) {
+    map.set(key(i), i);
+  }
+  const visited = run(map, key, id);
+  // The collection is left in the same state too
+  return [...visited, '|', ...[...map].map(([k, value]) => `${id(k)}:${value}`)];
+}
+
+describe('Iteration under mutation - ObjectMap', () => {
+  for (const storage of ['chained', 'open-addressing'] as const) {
+    describe(`${storage} storage`, () => {
+      for (const scenario of mapScenarios) {
+        test(scenario.name, () => {
+          const expected = runMapScenario(scenario, new Map(), id => id, key => key as number);
+          const actual = runMapScenario(
+            scenario,
+            new ObjectMap<unknown, number>(undefined, { storage, initialCapacity: 4 }),
+            objectKey,
+            objectId
+          );
+          expect(actual).toEqual(expected);
+        });
+      }
+    });
+  }
+});
+
+describe('Iteration under mutation - ObjectSet', () => {
+  const run = (set: Set<unknown>, key: (id: number) => unknown, id: (key: unknown) => number): string[] => {
+    for (let i = 0; i < 10; i++) {
+      set.add(key(i));
+    }
+    const visited: string[] = [];
+    for (const member of set) {
+      visited.push(String(id(member)));
+      set.delete(key(id(member) + 1));
+      if (id(member) < 20) {
+        set.add(key(id(member) + 15));
+      }
+      if (id(member) === 30) {
+        set.clear();
+        set.add(key(100));
+      }
+    }
+    set.forEach(member => {
+      visited.push(`forEach ${id(member)}`);
+      set.delete(member);
+    });
+    visited.push(`size ${set.size}`);
+    return visited;
+  };
+
+  for (const storage of ['chained', 'open-addressing'] as const) {
+    test(`${storage} storage`, () => {
+      const expected = run(new Set(), id => id, key => key as number);
+      const actual = run(new ObjectSet<unknown>(undefined, { storage, initialCapacity: 4 }), objectKey, objectId);
+      expect(actual).toEqual(expected);
+    });
+  }
+});
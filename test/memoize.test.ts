@@ -0,0 +1,98 @@
+import { expect, test, describe, vi } from 'vitest';
+import { deepFreeze, equals, hash, memoizeEquals, memoizeHash } from '../src';
+
+describe('memoizeHash()', () => {
+  test(`'none' returns the hash function as is`, () => {
+    expect(memoizeHash(hash, 'none')).toBe(hash);
+  });
+
+  test(`'frozen' memoizes deeply frozen objects only`, () => {
+    const spy = vi.fn(hash);
+    const memoized = memoizeHash(spy, 'frozen');
+
+    const frozen = deepFreeze({ a: [1, 2, 3] });
+    expect(memoized(frozen)).toBe(hash(frozen));
+    expect(memoized(frozen)).toBe(hash(frozen));
+    expect(spy).toHaveBeenCalledTimes(1);
+
+    // Objects frozen by hand are memoized too, once all of their members are frozen
+    const nested = Object.freeze({ inner: [1] });
+    expect(memoized(nested)).toBe(hash({ inner: [1] }));
+    nested.inner.push(2);
+    expect(memoized(nested)).toBe(hash({ inner: [1, 2] }));
+    expect(spy).toHaveBeenCalledTimes(3);
+
+    Object.freeze(nested.inner);
+    memoized(nested);
+    memoized(nested);
+    expect(spy).toHaveBeenCalledTimes(4);
+    spy.mockClear();
+
+    const mutable = { a: [1, 2, 3] };
+    memoized(mutable);
+    memoized(mutable);
+    expect(spy).toHaveBeenCalledTimes(2);
+
+    memoized('primitive');
+    memoized('primitive');
+    expect(spy).toHaveBeenCalledTimes(4);
+  });
+
+  test(`'all' memoizes all objects`, () => {
+    const spy = vi.fn(hash);
+    const memoized = memoizeHash(spy, 'all');
+
+    const key = { a: [1, 2, 3] };
+    expect(memoized(key)).toBe(hash(key));
+    expect(memoized(key)).toBe(hash(key));
+    expect(spy).toHaveBeenCalledTimes(1);
+
+    // Equal objects are memoized separately
+    expect(memoized({ a: [1, 2, 3] })).toBe(hash(key));
+    expect(spy).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('memoizeEquals()', () => {
+  test(`'none' returns the equality function as is`, () => {
+    expect(memoizeEquals(equals, 'none')).toBe(equals);
+  });
+
+  test('memoizes results for pairs of objects, in either order', () => {
+    const spy = vi.fn(equals);
+    const memoized = memoizeEquals(spy, 'all');
+
+    const a = { id: 1 };
+    const b = { id: 1 };
+    const c = { id: 2 };
+    expect(memoized(a, b)).toBe(true);
+    expect(memoized(a, b)).toBe(true);
+    expect(memoized(b, a)).toBe(true);
+    expect(spy).toHaveBeenCalledTimes(1);
+
+    expect(memoized(a, c)).toBe(false);
+    expect(memoized(c, a)).toBe(false);
+    expect(spy).toHaveBeenCalledTimes(2);
+
+    // Primitives are not memoized
+    expect(memoized(1, 1)).toBe(true);
+    expect(memoized(1, 1)).toBe(true);
+    expect(spy).toHaveBeenCalledTimes(4);
+  });
+
+  test(`'frozen' memoizes pairs of frozen objects only`, () => {
+    const spy = vi.fn(equals);
+    const memoized = memoizeEquals(spy, 'frozen');
+
+    const a = Object.freeze({ id: 1 });
+    const b = Object.freeze({ id: 1 });
+    memoized(a, b);
+    memoized(a, b);
+    expect(spy).toHaveBeenCalledTimes(1);
+
+    const mutable = { id: 1 };
+    memoized(a, mutable);
+    memoized(a, mutable);
+    expect(spy).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,107 @@
+import { expect, test, describe } from 'vitest';
+import { deepClone, deepFreeze, equals, hash, ObjectMap } from '../src';
+
+describe('deepFreeze()', () => {
+  test('freezes nested objects, arrays and collection contents', () => {
+    const member = { id: 1 };
+    const value = {
+      list: [{ a: 1 }],
+      map: new Map([[{ k: 1 }, { v: 1 }]]),
+      set: new Set([member]),
+      [Symbol.for('s')]: { b: 2 }
+    };
+    expect(deepFreeze(value)).toBe(value);
+
+    expect(Object.isFrozen(value)).toBe(true);
+    expect(Object.isFrozen(value.list)).toBe(true);
+    expect(Object.isFrozen(value.list[0])).toBe(true);
+    const [[k, v]] = value.map;
+    expect(Object.isFrozen(k)).toBe(true);
+    expect(Object.isFrozen(v)).toBe(true);
+    expect(Object.isFrozen(member)).toBe(true);
+    expect(Object.isFrozen(value[Symbol.for('s')])).toBe(true);
+  });
+
+  test('handles cycles, and skips binary data & value objects', () => {
+    const cyclic: any = { a: 1 };
+    cyclic.self = cyclic;
+    deepFreeze(cyclic);
+    expect(Object.isFrozen(cyclic)).toBe(true);
+
+    const bytes = new Uint8Array([1, 2]);
+    const valueObject = { [ObjectMap.equals]: () => true, [ObjectMap.hash]: () => 0, id: 1 };
+    deepFreeze({ bytes, valueObject });
+    expect(Object.isFrozen(bytes)).toBe(false);
+    expect(Object.isFrozen(valueObject)).toBe(false);
+  });
+});
+
+describe('deepClone()', () => {
+  test('copies structurally, sharing no mutable state', () => {
+    class Point {
+      constructor(public x: number, public y: number) { }
+    }
+    const value = {
+      list: [1, { a: 2 }],
+      date: new Date(1000),
+      regex: /a+/gi,
+      map: new Map<unknown, unknown>([[{ k: 1 }, [1, 2]]]),
+      set: new Set([{ m: 1 }]),
+      bytes: new Uint16Array([1, 2, 3]),
+      view: new DataView(new Uint8Array([1, 2, 3, 4]).buffer, 1, 2),
+      point: new Point(1, 2),
+      [Symbol.for('s')]: { b: 2 }
+    };
+    const copy = deepClone(value);
+
+    expect(copy).not.toBe(value);
+    expect(equals(copy, value)).toBe(true);
+    expect(hash(copy)).toBe(hash(value));
+
+    expect(copy.list).not.toBe(value.list);
+    expect(copy.list[1]).not.toBe(value.list[1]);
+    expect(copy.date).not.toBe(value.date);
+    expect(copy.date.getTime()).toBe(1000);
+    expect(copy.regex).not.toBe(value.regex);
+    expect(copy.regex.flags).toBe('gi');
+    expect([...copy.map.keys()][0]).not.toBe([...value.map.keys()][0]);
+    expect([...copy.set][0]).not.toBe([...value.set][0]);
+    expect(copy.bytes).toBeInstanceOf(Uint16Array);
+    expect(copy.bytes.buffer).not.toBe(value.bytes.buffer);
+    expect(copy.view.byteLength).toBe(2);
+    expect(copy.view.getUint8(0)).toBe(2);
+    expect(copy.point).toBeInstanceOf(Point);
+    expect(copy.point).not.toBe(value.point);
+    expect(copy[Symbol.for('s')]).not.toBe(value[Symbol.for('s')]);
+
+    value.list.push(3);
+    value.date.setTime(0);
+    expect(copy.list).toEqual([1, { a: 2 }]);
+    expect(copy.date.getTime()).toBe(1000);
+  });
+
+  test('preserves cycles & shared references, and copies frozen objects as mutable', () => {
+    const shared = { s: 1 };
+    const cyclic: any = { a: shared, b: shared };
+    cyclic.self = cyclic;
+    const copy = deepClone(cyclic);
+    expect(copy.self).toBe(copy);
+    expect(copy.a).toBe(copy.b);
+    expect(copy.a).not.toBe(shared);
+    expect(equals(copy, cyclic)).toBe(true);
+
+    const frozen = deepFreeze({ list: [1] });
+    const mutable = deepClone(frozen);
+    mutable.list.push(2);
+    expect(mutable.list).toEqual([1, 2]);
+  });
+
+  test('keeps primitives, functions & value objects', () => {
+    const fn = () => 1;
+    const valueObject = { [ObjectMap.equals]: () => true, [ObjectMap.hash]: () => 0 };
+    expect(deepClone(1)).toBe(1);
+    expect(deepClone(null)).toBe(null);
+    expect(deepClone(fn)).toBe(fn);
+    expect(deepClone({ valueObject }).valueObject).toBe(valueObject);
+  });
+});
@@ -0,0 +1,86 @@
+import { expect, test, describe } from 'vitest';
+import { ObjectMap, compileShape, equals, hash } from '../src';
+
+describe('compileShape()', () => {
+  const shape = { tenantId: 'string', date: 'date', tags: ['string'], meta: { count: 'number', active: 'boolean', extra: 'any' } } as const;
+  const key = (overrides: object = {}) => ({
+    tenantId: 't1',
+    date: new Date(0),
+    tags: ['a', 'b'],
+    meta: { count: 1, active: true, extra: { nested: [1, 2] } },
+    ...overrides
+  });
+
+  test('hashes conforming values exactly like the generic hash', () => {
+    const comparator = compileShape(shape);
+    const values = [
+      key(),
+      key({ tenantId: '' }),
+      key({ date: new Date(NaN) }),
+      key({ tags: [] }),
+      key({ meta: { count: NaN, active: false, extra: null } }),
+      key({ meta: { count: -0, active: false, extra: new Map([[1, 2]]) } })
+    ];
+    for (const value of values) {
+      expect(comparator.hash(value)).toBe(hash(value));
+    }
+
+    const primitives = ['string', 'number', 'boolean', 'bigint', 'date', 'any'] as const;
+    const samples = ['a', 1.5, true, 10n, new Date(1), { x: [1] }];
+    primitives.forEach((type, i) => {
+      expect(compileShape(type).hash(samples[i])).toBe(hash(samples[i]));
+      expect(compileShape([type]).hash([samples[i], samples[i]])).toBe(hash([samples[i], samples[i]]));
+      expect(compileShape({ [type]: type }).hash({ [type]: samples[i] })).toBe(hash({ [type]: samples[i] }));
+    });
+  });
+
+  test('compares conforming values like the generic equals', () => {
+    const comparator = compileShape(shape);
+    const pairs: [object, object][] = [
+      [key(), key()],
+      [key(), key({ tenantId: 't2' })],
+      [key(), key({ date: new Date(1) })],
+      [key(), key({ tags: ['a'] })],
+      [key(), key({ tags: ['b', 'a'] })],
+      [key(), key({ meta: { count: 1, active: true, extra: { nested: [1, 3] } } })],
+      [key({ meta: { count: NaN, active: true, extra: 1 } }), key({ meta: { count: NaN, active: true, extra: 1 } })]
+    ];
+    for (const [a, b] of pairs) {
+      expect(comparator.equals(a, b)).toBe(equals(a, b));
+    }
+  });
+
+  test('defers non-conforming values to the generic functions', () => {
+    const comparator = compileShape({ id: 'number', data: 'any' });
+    const values = [
+      { id: '1', data: 1 },
+      { id: 1 },
+      { id: 1, other: 1 },
+      { id: 1, data: 1, other: 1 },
+      null,
+      [1],
+      new (class { id = 1; data = 1 })()
+    ];
+    for (const value of values) {
+      expect(comparator.hash(value)).toBe(hash(value));
+      expect(comparator.equals(value, { id: 1, data: 1 })).toBe(equals(value, { id: 1, data: 1 }));
+      expect(comparator.equals(value, structuredClone(value))).toBe(equals(value, structuredClone(value)));
+    }
+  });
+
+  test('plugs into ObjectMap', () => {
+    const map = new ObjectMap<object, number>(undefined, compileShape(shape));
+    map.set(key(), 1);
+    map.set(key({ tags: ['c'] }), 2);
+    map.set(key(), 3);
+    expect(map.size).toBe(2);
+    expect(map.get(key())).toBe(3);
+    expect(map.get(key({ tags: ['c'] }))).toBe(2);
+  });
+
+  test('validates shapes', () => {
+    expect(() => compileShape('float' as any)).toThrow(TypeError);
+    expect(() => compileShape(['string', 'number'] as any)).toThrow(TypeError);
+    expect(() => compileShape({ a: 1 } as any)).toThrow(TypeError);
+  });
+});